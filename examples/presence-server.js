@@ -0,0 +1,108 @@
+/**
+ * Reference presence registry for laravel-echo-nats presence channels.
+ *
+ * Browsers keep their own rosters through the presence protocol, this optional
+ * process additionally answers roster requests and announces members whose
+ * tab died without saying goodbye.
+ *
+ *   npm install nats
+ *   NATS_URL=nats://localhost:4222 node examples/presence-server.js
+ */
+import { connect, JSONCodec } from 'nats';
+
+const PRESENCE_EVENTS = {
+    JOINING: 'presence:joining',
+    LEAVING: 'presence:leaving',
+    HEARTBEAT: 'presence:heartbeat',
+    SYNC: 'presence:sync',
+    MEMBER: 'presence:member'
+};
+
+// Must match the connector's prefix and presenceTimeout options
+const PREFIX = process.env.NATS_PREFIX || '';
+const PRESENCE_TIMEOUT = Number(process.env.PRESENCE_TIMEOUT || 45000);
+
+const codec = JSONCodec();
+const nc = await connect({ servers: process.env.NATS_URL || 'nats://localhost:4222' });
+
+// channel subject -> socket -> { member, lastSeen }
+const rosters = new Map();
+
+function roster(subject) {
+    if (!rosters.has(subject)) {
+        rosters.set(subject, new Map());
+    }
+    return rosters.get(subject);
+}
+
+function touch(subject, member) {
+    roster(subject).set(member.socket, { member, lastSeen: Date.now() });
+}
+
+function remove(subject, socket) {
+    const members = roster(subject);
+    members.delete(socket);
+    if (members.size === 0) {
+        rosters.delete(subject);
+    }
+}
+
+// Presence channel subjects start with the prefix and "presence-", listen to all of them
+const sub = nc.subscribe('>');
+
+(async () => {
+    for await (const msg of sub) {
+        if (!msg.subject.startsWith(PREFIX + 'presence-')) {
+            continue;
+        }
+
+        let message;
+        try {
+            message = codec.decode(msg.data);
+        } catch {
+            continue;
+        }
+
+        const member = message?.data;
+        if (!member?.socket) {
+            continue;
+        }
+
+        switch (message.event) {
+            case PRESENCE_EVENTS.JOINING:
+            case PRESENCE_EVENTS.HEARTBEAT:
+                touch(msg.subject, member);
+                break;
+            case PRESENCE_EVENTS.LEAVING:
+                remove(msg.subject, member.socket);
+                break;
+            case PRESENCE_EVENTS.SYNC:
+                if (msg.reply) {
+                    roster(msg.subject).forEach(({ member: known }) => {
+                        nc.publish(msg.reply, codec.encode({ event: PRESENCE_EVENTS.MEMBER, data: known }));
+                    });
+                }
+                touch(msg.subject, member);
+                break;
+        }
+    }
+})();
+
+// Announce members that stopped sending heartbeats
+setInterval(() => {
+    const deadline = Date.now() - PRESENCE_TIMEOUT;
+
+    rosters.forEach((members, subject) => {
+        members.forEach(({ member, lastSeen }, socket) => {
+            if (lastSeen < deadline) {
+                remove(subject, socket);
+                nc.publish(subject, codec.encode({ event: PRESENCE_EVENTS.LEAVING, data: member }));
+            }
+        });
+    });
+}, PRESENCE_TIMEOUT / 3);
+
+process.on('SIGTERM', async () => {
+    await nc.drain();
+    process.exit(0);
+});
@@ -7,7 +7,8 @@ export default {
     input: 'src/index.ts',
     output: [
         {
-            file: 'dist/index.js',
+            // .cjs because the package is "type": "module"
+            file: 'dist/index.cjs',
             format: 'cjs',
             exports: 'named',
             sourcemap: true
@@ -32,5 +33,5 @@ export default {
             rootDir: './src'
         })
     ],
-    external: ['axios']
+    external: ['axios', 'tweetnacl']
 };
\ No newline at end of file
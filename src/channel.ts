@@ -1,9 +1,33 @@
-import { Connector, Channel as IChannel } from './types';
+import {
+    Connector,
+    Channel as IChannel,
+    PrivateChannel as IPrivateChannel,
+    EventMap,
+    EventName,
+    ListenableEvent,
+    EventCallback,
+    ListenerCallback,
+    PayloadValidator,
+    MessageMeta,
+    PublishOptions,
+    RequestOptions,
+    HistoryOptions,
+    AuthResponse,
+    SubscriptionError
+} from './types';
+import { subjectMatches } from './subjects';
+import { decodeSharedSecret, decryptPayload, encryptPayload, isEncryptedPayload } from './encryption';
 
-export abstract class BaseChannel implements IChannel {
+// Events raised by the channel itself rather than received from NATS
+const CHANNEL_EVENTS = ['subscription_succeeded', 'subscription_error', 'decryption_error', 'history_error', 'validation_error'];
+
+export abstract class BaseChannel<Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>
+    implements IChannel<Events, Whispers> {
     protected listeners: Record<string, Function[]> = {};
-    protected subscribed: boolean = false;
+    protected validators: Record<string, PayloadValidator> = {};
+    protected subscriptionActive: boolean = false;
     protected subscriptionId: string = '';
+    private pendingHistory: HistoryOptions | null = null;
 
     constructor(
         protected connector: Connector,
@@ -18,31 +42,39 @@ export abstract class BaseChannel implements IChannel {
     }
 
     public async subscribe(): Promise<this> {
-        if (this.subscribed) {
+        if (this.subscriptionActive) {
             return this;
         }
 
         try {
             // Use the connector's subscribe method
             await (this.connector as any).subscribeChannel(this);
-            this.subscribed = true;
+            this.subscriptionActive = true;
         } catch (error) {
             console.error(`Failed to subscribe to channel ${this.name}:`, error);
             throw error;
         }
 
+        this.trigger('subscription_succeeded', undefined);
+
+        if (this.pendingHistory) {
+            const options = this.pendingHistory;
+            this.pendingHistory = null;
+            this.fetchHistory(options);
+        }
+
         return this;
     }
 
     public unsubscribe(): this {
-        if (!this.subscribed) {
+        if (!this.subscriptionActive) {
             return this;
         }
 
         try {
             // Use the connector's unsubscribe method
             (this.connector as any).unsubscribeChannel(this);
-            this.subscribed = false;
+            this.subscriptionActive = false;
             this.listeners = {};
         } catch (error) {
             console.error(`Failed to unsubscribe from channel ${this.name}:`, error);
@@ -51,7 +83,12 @@ export abstract class BaseChannel implements IChannel {
         return this;
     }
 
-    public listen(event: string, callback: Function): this {
+    public listen<E extends ListenableEvent<Events>>(event: E, callback: ListenerCallback<Events, E>): this {
+        return this.addListener(this.formatEvent(event), callback);
+    }
+
+    // Untyped listen, for events outside of the channel's event map
+    protected addListener(event: string, callback: Function): this {
         if (!this.listeners[event]) {
             this.listeners[event] = [];
         }
@@ -59,25 +96,88 @@ export abstract class BaseChannel implements IChannel {
         this.listeners[event].push(callback);
 
         // Auto-subscribe on first listener
-        if (!this.subscribed && Object.keys(this.listeners).length === 1) {
+        if (!this.subscriptionActive && this.listenedEvents().length === 1) {
             this.subscribe().catch(console.error);
         }
 
         return this;
     }
 
-    public notification(callback: Function): this {
-        return this.listen(
-            'Illuminate\\Notifications\\Events\\BroadcastNotificationCreated',
+    // Called every time the server confirms the subscription, including after reconnects
+    public subscribed(callback: Function): this {
+        return this.on('subscription_succeeded', callback);
+    }
+
+    public error(callback: (error: SubscriptionError) => void): this {
+        return this.on('subscription_error', callback);
+    }
+
+    // Register a listener for channel events, without subscribing
+    protected on(event: string, callback: Function): this {
+        if (!this.listeners[event]) {
+            this.listeners[event] = [];
+        }
+
+        this.listeners[event].push(callback);
+        return this;
+    }
+
+    // Events received from NATS that have listeners
+    private listenedEvents(): string[] {
+        return Object.keys(this.listeners).filter(event => !CHANNEL_EVENTS.includes(event));
+    }
+
+    public notification(callback: EventCallback): this {
+        return this.addListener(
+            this.formatEvent('.Illuminate\\Notifications\\Events\\BroadcastNotificationCreated'),
             callback
         );
     }
 
-    public listenForWhisper(event: string, callback: Function): this {
-        return this.listen('.client-' + event, callback);
+    public listenForWhisper<E extends EventName<Whispers>>(event: E, callback: EventCallback<Whispers[E]>): this {
+        return this.addListener(this.formatEvent('.client-' + event), callback);
+    }
+
+    // Reject malformed payloads of an event before its listeners see them
+    public validate(event: EventName<Events>, validator: PayloadValidator): this {
+        this.validators[this.formatEvent(event)] = validator;
+        return this;
+    }
+
+    // Channel events and wildcards are not broadcast names and keep their name
+    protected formatEvent(event: string): string {
+        if (event === '*' || CHANNEL_EVENTS.includes(event)) {
+            return event;
+        }
+        return (this.connector as any).formatEvent(event);
+    }
+
+    // Send an event to the channel and resolve with the first listener's response
+    public request(event: string, data: any, options: RequestOptions = {}): Promise<any> {
+        const connector = this.connector as any;
+        return connector.request(connector.channelSubject(this.name), { event, data }, options);
     }
 
-    public stopListening(event?: string, callback?: Function): this {
+    // Deliver recent events through the regular listeners, flagged with meta.historical
+    public history(options: HistoryOptions = {}): this {
+        if (this.subscriptionActive) {
+            this.fetchHistory(options);
+        } else {
+            // Live events are subscribed first so none fall between history and live
+            this.pendingHistory = options;
+        }
+
+        return this;
+    }
+
+    private fetchHistory(options: HistoryOptions): void {
+        (this.connector as any).fetchHistory(this.name, options).catch((error: any) => {
+            console.error(`Failed to fetch history for channel ${this.name}:`, error);
+            this.trigger('history_error', error);
+        });
+    }
+
+    public stopListening(event?: ListenableEvent<Events>, callback?: Function): this {
         if (!event) {
             // Remove all listeners
             this.listeners = {};
@@ -85,21 +185,22 @@ export abstract class BaseChannel implements IChannel {
             return this;
         }
 
-        if (!this.listeners[event]) {
+        const name = this.formatEvent(event);
+        if (!this.listeners[name]) {
             return this;
         }
 
         if (callback) {
-            const index = this.listeners[event].indexOf(callback);
+            const index = this.listeners[name].indexOf(callback);
             if (index > -1) {
-                this.listeners[event].splice(index, 1);
+                this.listeners[name].splice(index, 1);
             }
         } else {
-            delete this.listeners[event];
+            delete this.listeners[name];
         }
 
         // Unsubscribe if no listeners left
-        if (Object.keys(this.listeners).length === 0) {
+        if (this.listenedEvents().length === 0) {
             this.unsubscribe();
         }
 
@@ -111,7 +212,7 @@ export abstract class BaseChannel implements IChannel {
     }
 
     public isSubscribed(): boolean {
-        return this.subscribed;
+        return this.subscriptionActive;
     }
 
     public getListeners(event?: string): Function[] {
@@ -122,11 +223,15 @@ export abstract class BaseChannel implements IChannel {
         return Object.values(this.listeners).reduce((acc, val) => acc.concat(val), []);
     }
 
-    public trigger(event: string, data: any): void {
+    public trigger(event: string, data: any, meta?: MessageMeta): void {
+        if (!CHANNEL_EVENTS.includes(event) && !this.isValidPayload(event, data)) {
+            return;
+        }
+
         if (this.listeners[event]) {
             this.listeners[event].forEach(callback => {
                 try {
-                    callback(data);
+                    callback(data, meta);
                 } catch (error) {
                     console.error(`Error in channel ${this.name} event handler for "${event}":`, error);
                 }
@@ -137,45 +242,225 @@ export abstract class BaseChannel implements IChannel {
         if (this.listeners['*']) {
             this.listeners['*'].forEach(callback => {
                 try {
-                    callback(event, data);
+                    callback(event, data, meta);
                 } catch (error) {
                     console.error(`Error in channel ${this.name} wildcard handler for "${event}":`, error);
                 }
             });
         }
     }
+
+    private isValidPayload(event: string, data: any): boolean {
+        const validator = this.validators[event];
+        if (!validator) {
+            return true;
+        }
+
+        let error: Error | null = null;
+        try {
+            if (validator(data) === false) {
+                error = new Error(`Invalid payload for event "${event}" on channel ${this.name}`);
+            }
+        } catch (validationError: any) {
+            error = new Error(`Invalid payload for event "${event}" on channel ${this.name}: ${validationError?.message || validationError}`);
+        }
+
+        if (error) {
+            console.error(error.message, data);
+            this.trigger('validation_error', { event, data, error });
+            return false;
+        }
+
+        return true;
+    }
 }
 
-export class Channel extends BaseChannel {
+export class Channel<Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>
+    extends BaseChannel<Events, Whispers> {
     // Base channel implementation is complete
 }
 
-export class PrivateChannel extends BaseChannel {
-    constructor(connector: Connector, name: string, options: any = {}) {
-        super(connector, 'private-' + name, options);
+export class PrivateChannel<Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>
+    extends BaseChannel<Events, Whispers> implements IPrivateChannel<Events, Whispers> {
+    protected authResponse: AuthResponse | null = null;
+    private whisperTimes: number[] = [];
+
+    // Subclasses pass their own prefix, e.g. private-encrypted- or presence-
+    constructor(connector: Connector, name: string, options: any = {}, prefix: string = 'private-') {
+        super(connector, prefix + name, options);
     }
 
     public async subscribe(): Promise<this> {
+        if (this.subscriptionActive) {
+            return this;
+        }
+
         // For private channels, authenticate first
         try {
-            await (this.connector as any).authenticatePrivateChannel(this.name);
-            return await super.subscribe();
-        } catch (error) {
+            this.authResponse = await (this.connector as any).authenticatePrivateChannel(this.name);
+        } catch (error: any) {
             console.error(`Authentication failed for private channel ${this.name}:`, error);
+            this.failSubscription({ type: 'AuthError', status: error?.response?.status || 0, error });
             throw error;
         }
+
+        // Then apply the NATS grants of the auth response
+        try {
+            await (this.connector as any).authorizeChannel(this.name, this.authResponse);
+        } catch (error: any) {
+            console.error(`Authorization denied for private channel ${this.name}:`, error);
+            this.failSubscription({ type: 'PermissionError', status: 403, error });
+            throw error;
+        }
+
+        return await super.subscribe();
     }
 
-    public whisper(eventName: string, data: any): this {
-        // Send whisper through connector
-        const whisperSubject = `${this.name}.whisper.${eventName}`;
-        (this.connector as any).send(whisperSubject, data);
+    public whisper<E extends EventName<Whispers>>(eventName: E, data: Whispers[E], options: PublishOptions = {}): this {
+        // Whispers are client-<event> broadcasts on the channel subject, every subscriber receives them
+        const whisperSubject = (this.connector as any).channelSubject(this.name);
+
+        const allowed = this.authResponse?.permissions?.publish;
+        if (allowed && !allowed.some(pattern => subjectMatches(pattern, whisperSubject))) {
+            console.error(`Not permitted to whisper on channel ${this.name}`);
+            return this;
+        }
+
+        if (!this.takeWhisperSlot()) {
+            console.warn(`Whisper "${eventName}" on channel ${this.name} dropped, whisperRateLimit reached`);
+            return this;
+        }
+
+        // The socket lets the connector drop our own whisper when the server echoes it back
+        const message = { event: 'client-' + eventName, data, socket: this.connector.socketId() };
+
+        (this.connector as any).send(whisperSubject, message, options).catch((error: any) => {
+            console.error(`Failed to whisper on channel ${this.name}:`, error);
+        });
         return this;
     }
+
+    // Sliding one second window over the whispers sent on this channel
+    private takeWhisperSlot(): boolean {
+        const limit = (this.connector as any).getConfig().whisperRateLimit;
+        if (!limit) {
+            return true;
+        }
+
+        const now = Date.now();
+        this.whisperTimes = this.whisperTimes.filter(time => now - time < 1000);
+        if (this.whisperTimes.length >= limit) {
+            return false;
+        }
+
+        this.whisperTimes.push(now);
+        return true;
+    }
+
+    protected failSubscription(error: SubscriptionError): void {
+        this.trigger('subscription_error', error);
+    }
 }
 
-export class EncryptedPrivateChannel extends PrivateChannel {
+export class EncryptedPrivateChannel<Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>
+    extends PrivateChannel<Events, Whispers> {
+    private reauthentication: Promise<void> | null = null;
+    private secretRefreshed: boolean = false;
+
     constructor(connector: Connector, name: string, options: any = {}) {
-        super(connector, 'private-encrypted-' + name, options);
+        super(connector, name, options, 'private-encrypted-');
+    }
+
+    public trigger(event: string, data: any, meta?: MessageMeta): void {
+        if (CHANNEL_EVENTS.includes(event)) {
+            super.trigger(event, data, meta);
+            return;
+        }
+
+        let decrypted: any;
+        try {
+            decrypted = this.decrypt(data);
+        } catch (error) {
+            this.handleDecryptionFailure(event, data, meta, error as Error);
+            return;
+        }
+
+        this.secretRefreshed = false;
+        super.trigger(event, decrypted, meta);
+    }
+
+    public whisper<E extends EventName<Whispers>>(eventName: E, data: Whispers[E], options: PublishOptions = {}): this {
+        let payload: any;
+        try {
+            payload = encryptPayload(this.sharedSecret(), data);
+        } catch (error) {
+            console.error(`Cannot whisper on encrypted channel ${this.name}:`, error);
+            return this;
+        }
+
+        return super.whisper(eventName, payload, options);
+    }
+
+    private sharedSecret(): Uint8Array {
+        const secret = this.authResponse?.shared_secret;
+        if (!secret) {
+            throw new Error(`No shared_secret in the auth response for ${this.name}`);
+        }
+        return decodeSharedSecret(secret);
+    }
+
+    private decrypt(data: any): any {
+        let payload = data;
+        if (typeof data === 'string') {
+            try {
+                payload = JSON.parse(data);
+            } catch {
+                // Not JSON, rejected below
+            }
+        }
+
+        if (!isEncryptedPayload(payload)) {
+            throw new Error('Unexpected format for encrypted event, expected nonce and ciphertext');
+        }
+
+        return decryptPayload(this.sharedSecret(), payload);
+    }
+
+    private handleDecryptionFailure(event: string, data: any, meta: MessageMeta | undefined, error: Error): void {
+        this.trigger('decryption_error', { event, error });
+
+        // The key may have been rotated: re-authenticate once and retry, then give up
+        if (this.secretRefreshed) {
+            console.error(`Unable to decrypt event "${event}" on channel ${this.name}:`, error);
+            return;
+        }
+
+        this.refreshSharedSecret().then(() => {
+            let decrypted: any;
+            try {
+                decrypted = this.decrypt(data);
+            } catch (retryError) {
+                console.error(`Unable to decrypt event "${event}" on channel ${this.name}:`, retryError);
+                return;
+            }
+            super.trigger(event, decrypted, meta);
+        });
+    }
+
+    private refreshSharedSecret(): Promise<void> {
+        if (!this.reauthentication) {
+            this.reauthentication = (this.connector as any).authenticatePrivateChannel(this.name)
+                .then((auth: AuthResponse) => {
+                    this.authResponse = auth;
+                })
+                .catch((error: Error) => {
+                    console.error(`Failed to refresh the shared secret for ${this.name}:`, error);
+                })
+                .finally(() => {
+                    this.secretRefreshed = true;
+                    this.reauthentication = null;
+                });
+        }
+        return this.reauthentication!;
     }
 }
\ No newline at end of file
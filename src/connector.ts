@@ -3,25 +3,73 @@ import {
     NatsEchoOptions,
     BroadcastEvent,
     AuthResponse,
-    Subscription
+    Subscription,
+    MessageMeta,
+    PublishOptions,
+    NatsCredentials,
+    MessageHandler,
+    RequestOptions,
+    WebSocketLike,
+    ChannelOptions,
+    HistoryOptions,
+    StateOptions,
+    SubjectMapper,
+    ConnectionState,
+    StateChange,
+    SubscriptionError,
+    SubjectPermissions,
+    EventMap,
+    EventName,
+    ListenableEvent,
+    ListenerCallback
 } from './types';
 import { Channel, PrivateChannel, EncryptedPrivateChannel } from './channel';
 import { PresenceChannel } from './presence-channel';
+import { StateChannel } from './state-channel';
 import { NatsEventFormatter } from './event-formatter';
+import { NatsParser, NatsMsg, NATS_PROTOCOL } from './parser';
+import { NatsHeaders } from './headers';
+import { ServerPool } from './server-pool';
+import { fromSeed, parseCreds, signNonce, jwtPermissions } from './nkeys';
+import { subjectMatches } from './subjects';
+import { OrderedConsumer, OrderedConsumerConfig, lookupStream, findStartSequence } from './jetstream';
+import { DefaultSubjectMapper } from './subject-mapper';
+import { OutboundBuffer } from './outbound-buffer';
+
+// WebSocket readyState value, the global WebSocket may not exist outside browsers
+const WS_OPEN = 1;
+
+// e.g. Permissions Violation for Subscription to "private-App.Models.User.5"
+const SUBSCRIPTION_VIOLATION = /Permissions Violation for Subscription to "?([^"\s]+)"?/i;
+
+// e.g. Authorization Violation, User Authentication Expired
+const AUTHENTICATION_FAILURE = /Authorization Violation|Authentication (Expired|Revoked)/i;
+
+// Scoped credentials from the auth response of a private channel
+interface ChannelGrant {
+    credentials: NatsCredentials;
+    // Null when neither the JWT nor the auth response lists the allowed subjects
+    permissions: SubjectPermissions | null;
+}
+
+// connect() call waiting for the handshake of the current socket
+interface PendingConnect {
+    promise: Promise<void>;
+    resolve: () => void;
+    reject: (error: Error) => void;
+}
+
+// Events returned by channel.history() without an explicit limit
+const HISTORY_LIMIT = 100;
 
-// NATS Protocol Constants
-const NATS_PROTOCOL = {
-    INFO: 'INFO',
-    CONNECT: 'CONNECT',
-    PUB: 'PUB',
-    SUB: 'SUB',
-    UNSUB: 'UNSUB',
-    MSG: 'MSG',
-    PING: 'PING',
-    PONG: 'PONG',
-    OK: '+OK',
-    ERR: '-ERR'
-} as const;
+// Live events held back while the history of their channel is fetched
+interface HistoryFetch {
+    buffered: BroadcastEvent[];
+    // Fingerprints of historical events, to drop live duplicates that carry no sequence
+    delivered: string[];
+    lastSequence: number;
+    abort?: (error: Error) => void;
+}
 
 // Laravel Echo connector interface
 interface LaravelEchoConnector {
@@ -38,23 +86,44 @@ interface LaravelEchoConnector {
 }
 
 export class NatsConnector implements LaravelEchoConnector {
-    private ws: WebSocket | null = null;
+    private ws: WebSocketLike | null = null;
     private eventFormatter: NatsEventFormatter;
+    private subjectMapper: SubjectMapper;
     private channels: Map<string, Channel> = new Map();
+    private stateChannels: Map<string, StateChannel> = new Map();
     private subscriptions: Map<string, Subscription> = new Map();
+    private sidIndex: Map<string, string> = new Map(); // sid -> channel name
     private eventHandlers: Map<string, Set<Function>> = new Map();
     private reconnectTimer: any = null;
     private reconnectAttempts: number = 0;
     private socketIdentifier: string = '';
     private axios: AxiosInstance;
-    private isConnecting: boolean = false;
-    private connectionPromise: Promise<void> | null = null;
+    private connectionState: ConnectionState = 'initialized';
+    private pendingConnect: PendingConnect | null = null;
+    private handshakePending: boolean = false;
+    private closeAction: 'retry' | 'fail' | 'reauthorize' | null = null;
+    private pongWaiters: { resolve: () => void; reject: (error: Error) => void }[] = [];
+    private drainPromise: Promise<void> | null = null;
     private pingInterval: any = null;
+    private connectTimer: any = null;
     private serverInfo: any = null;
-    private connected: boolean = false;
-    private partialMessage: string = '';
-    private pendingData: string = '';
-    private bytesExpected: number = 0;
+    private parser: NatsParser;
+    private servers: ServerPool;
+    private restarting: boolean = false;
+    private channelGrants: Map<string, ChannelGrant> = new Map(); // channel name -> grant, oldest first
+    private appliedGrant: ChannelGrant | null = null;
+    private reauthorized: boolean = false;
+    private inboxPrefix: string;
+    private inboxSid: string;
+    private inboxSubscribed: boolean = false;
+    private inboxHandlers: Map<string, MessageHandler> = new Map();
+    // Connection scoped subscriptions outside of channels, e.g. JetStream deliver subjects
+    private subjectHandlers: Map<string, MessageHandler> = new Map();
+    private consumers: Map<string, OrderedConsumer> = new Map(); // channel name -> durable consumer
+    private historyFetches: Map<string, HistoryFetch> = new Map();
+    private subscriptionErrors: Map<string, Error> = new Map(); // channel name -> rejected SUB
+    private decoder = new TextDecoder();
+    private outbound: OutboundBuffer<any>;
 
     // Laravel Echo compatibility properties
     public connector: any = this;
@@ -63,27 +132,56 @@ export class NatsConnector implements LaravelEchoConnector {
     constructor(options: NatsEchoOptions = {}) {
         this.options = this.normalizeOptions(options);
         this.eventFormatter = new NatsEventFormatter(this.options.namespace);
+        this.subjectMapper = this.options.subjectMapper || new DefaultSubjectMapper(this.options.prefix);
+        this.outbound = new OutboundBuffer({
+            maxMessages: this.options.maxPendingMessages!,
+            maxBytes: this.options.maxPendingBytes!,
+            ttl: this.options.pendingTtl!
+        });
+        this.parser = this.createParser();
+        this.servers = new ServerPool(this.configuredServers(), {
+            randomize: !this.options.noRandomize,
+            normalize: (server) => this.normalizeServerUrl(server)
+        });
         this.axios = axios.create();
         this.setupAxiosInterceptors();
         this.generateSocketId();
+        this.registerSocketIdInterceptor();
+
+        // Reply subjects of this connection share a single wildcard subscription
+        this.inboxPrefix = '_INBOX.' + Math.random().toString(36).substr(2, 9) + Math.random().toString(36).substr(2, 9);
+        this.inboxSid = 'inbox_' + Math.random().toString(36).substr(2, 9);
     }
 
     private normalizeOptions(options: NatsEchoOptions): NatsEchoOptions {
+        // Location and CSRF defaults only apply in browsers
+        const location = typeof window !== 'undefined' ? window.location : undefined;
+
         const normalized: NatsEchoOptions = {
-            host: options.host || window.location.hostname,
+            host: options.host || location?.hostname || 'localhost',
             port: options.port || 4222,
             wsPort: options.wsPort || 4223,
             wsPath: options.wsPath || '/',
-            useTLS: options.useTLS || window.location.protocol === 'https:',
+            useTLS: options.useTLS || location?.protocol === 'https:',
             forceTLS: options.forceTLS || false,
             authEndpoint: options.authEndpoint || '/broadcasting/auth',
-            namespace: options.namespace || 'App\\Events',
+            namespace: options.namespace ?? 'App\\Events',
             broadcaster: 'nats',
             maxReconnectAttempts: options.maxReconnectAttempts || 10,
             reconnectDelay: options.reconnectDelay || 3000,
             timeout: options.timeout || 10000, // 10 seconds for NATS handshake
+            requestTimeout: options.requestTimeout || 5000,
             debug: options.debug || false,
             pingInterval: options.pingInterval || 30000, // 30 seconds
+            maxPingsOut: options.maxPingsOut || 2,
+            presenceHeartbeat: options.presenceHeartbeat || 15000,
+            presenceTimeout: options.presenceTimeout || 45000,
+            presenceSyncTimeout: options.presenceSyncTimeout || 1000,
+            whisperRateLimit: options.whisperRateLimit ?? 10,
+            drainTimeout: options.drainTimeout || 10000,
+            maxPendingMessages: options.maxPendingMessages ?? 1000,
+            maxPendingBytes: options.maxPendingBytes ?? 1024 * 1024,
+            pendingTtl: options.pendingTtl || 0,
             ...options
         };
 
@@ -96,7 +194,7 @@ export class NatsConnector implements LaravelEchoConnector {
         }
 
         // Add CSRF token from meta tag if not provided
-        if (!normalized.auth.headers['X-CSRF-TOKEN']) {
+        if (!normalized.auth.headers['X-CSRF-TOKEN'] && typeof document !== 'undefined') {
             const csrfMeta = document.querySelector('meta[name="csrf-token"]');
             if (csrfMeta) {
                 normalized.auth.headers['X-CSRF-TOKEN'] = csrfMeta.getAttribute('content') || '';
@@ -130,18 +228,75 @@ export class NatsConnector implements LaravelEchoConnector {
         });
     }
 
+    // Laravel's toOthers() leaves out the connection named by the X-Socket-ID request header
+    private registerSocketIdInterceptor(): void {
+        if (this.options.withoutInterceptors) {
+            return;
+        }
+
+        const client: AxiosInstance | undefined = this.options.axios
+            || (typeof window !== 'undefined' ? (window as any).axios : undefined);
+
+        client?.interceptors?.request.use((config) => {
+            const headers: AxiosRequestHeaders = config.headers || {};
+            headers['X-Socket-ID'] = this.socketId();
+            config.headers = headers;
+            return config;
+        });
+    }
+
+    private createParser(): NatsParser {
+        return new NatsParser({
+            onInfo: (info) => this.handleInfoMessage(info),
+            onMsg: (msg) => this.handleCompleteMessage(msg),
+            onPing: () => this.handlePing(),
+            onPong: () => this.handlePong(),
+            onOk: () => this.handleOkMessage(),
+            onErr: (message) => this.handleErrorMessage(message),
+            onProtocolError: (error) => {
+                console.error('NATS Echo: Protocol error', error.message);
+                this.trigger('error', error);
+            }
+        });
+    }
+
     private generateSocketId(): void {
         this.socketIdentifier = 'nats_' + Math.random().toString(36).substr(2, 9);
     }
 
-    private buildWebSocketUrl(): string {
-        const protocol = this.options.useTLS ? 'wss' : 'ws';
-        const port = this.options.wsPort || 4223;
-        const path = this.options.wsPath || '/';
+    private configuredServers(): string[] {
+        const servers = this.options.servers;
+
+        if (Array.isArray(servers) && servers.length > 0) {
+            return servers;
+        }
+        if (typeof servers === 'string' && servers !== '') {
+            return [servers];
+        }
+
+        return [`${this.options.host}:${this.options.wsPort || 4223}`];
+    }
+
+    // Accepts full WebSocket URLs as well as "host[:port]" entries (as advertised in INFO)
+    private normalizeServerUrl(server: string): string {
+        const trimmed = server.trim();
+        if (/^wss?:\/\//i.test(trimmed)) {
+            return trimmed;
+        }
+
+        // Discovered cluster members are reached like the server that announced them
+        const reference = this.servers?.current()?.match(/^(wss?):\/\/[^/]+(\/.*)?$/i);
+        const protocol = reference ? reference[1].toLowerCase() : this.options.useTLS ? 'wss' : 'ws';
+        const path = reference ? reference[2] || '/' : this.options.wsPath || '/';
+        const hasPort = /:\d+$/.test(trimmed);
 
         // Build URL WITHOUT auth parameters in query string
         // NATS text protocol expects auth in CONNECT command, not URL
-        let url = `${protocol}://${this.options.host}:${port}${path}`;
+        return `${protocol}://${trimmed}${hasPort ? '' : ':' + (this.options.wsPort || 4223)}${path}`;
+    }
+
+    private buildWebSocketUrl(): string {
+        const url = this.servers.current();
 
         if (this.options.debug) {
             console.log('NATS WebSocket URL:', url);
@@ -150,332 +305,514 @@ export class NatsConnector implements LaravelEchoConnector {
         return url;
     }
 
-    public async connect(): Promise<void> {
-        if (this.isConnecting && this.connectionPromise) {
-            return this.connectionPromise;
+    private createWebSocket(url: string): WebSocketLike {
+        if (this.options.transport) {
+            return this.options.transport(url);
         }
 
-        if (this.connected && this.ws?.readyState === WebSocket.OPEN) {
-            return Promise.resolve();
+        // An injected implementation (e.g. the "ws" package in Node) wins over the global one
+        const WebSocketImpl = this.options.webSocket
+            || (typeof WebSocket !== 'undefined' ? WebSocket : undefined);
+
+        if (!WebSocketImpl) {
+            throw new Error('No WebSocket implementation available, pass one with the webSocket or transport option');
         }
 
-        this.isConnecting = true;
-        this.connectionPromise = new Promise((resolve, reject) => {
-            try {
-                const url = this.buildWebSocketUrl();
+        return new WebSocketImpl(url);
+    }
 
-                if (this.options.debug) {
-                    console.log('Connecting to NATS WebSocket:', url);
-                }
+    public connect(): Promise<void> {
+        if (this.pendingConnect) {
+            return this.pendingConnect.promise;
+        }
 
-                this.ws = new WebSocket(url);
+        if (this.isConnected()) {
+            return Promise.resolve();
+        }
 
-                // Set binary type to arraybuffer for better performance
-                this.ws.binaryType = 'arraybuffer';
+        let resolve!: () => void;
+        let reject!: (error: Error) => void;
+        const promise = new Promise<void>((res, rej) => {
+            resolve = res;
+            reject = rej;
+        });
+        this.pendingConnect = { promise, resolve, reject };
 
-                this.ws.onopen = () => {
-                    if (this.options.debug) {
-                        console.log('NATS WebSocket: Connection opened');
-                    }
-                    // NATS protocol handshake starts with server sending INFO
-                    // We'll handle it in onmessage
-                };
+        // Retries keep reporting reconnecting until one of them succeeds
+        this.setState(this.connectionState === 'reconnecting' ? 'reconnecting' : 'connecting');
 
-                this.ws.onmessage = (event) => {
-                    this.handleNatsMessage(event.data);
-                };
+        let ws: WebSocketLike;
+        try {
+            const url = this.buildWebSocketUrl();
 
-                this.ws.onerror = (error) => {
-                    if (this.options.debug) {
-                        console.error('NATS WebSocket: Connection error', error);
-                    }
-                    this.isConnecting = false;
-                    this.connected = false;
-                    this.trigger('error', error);
-                    reject(error);
-                };
+            if (this.options.debug) {
+                console.log('Connecting to NATS WebSocket:', url);
+            }
 
-                this.ws.onclose = (event) => {
-                    if (this.options.debug) {
-                        console.log(`NATS WebSocket: Connection closed`, event.code, event.reason);
-                    }
+            ws = this.createWebSocket(url);
+        } catch (error: any) {
+            this.setState('failed');
+            this.settleConnect(error);
+            return promise;
+        }
 
-                    this.isConnecting = false;
-                    this.connected = false;
-                    this.cleanupConnection();
+        this.ws = ws;
 
-                    this.trigger('disconnect', event);
+        // Set binary type to arraybuffer for better performance
+        ws.binaryType = 'arraybuffer';
 
-                    if (!event.wasClean && this.reconnectAttempts < this.options.maxReconnectAttempts!) {
-                        this.scheduleReconnect();
-                    }
+        ws.onopen = () => {
+            if (this.options.debug) {
+                console.log('NATS WebSocket: Connection opened');
+            }
+            // NATS protocol handshake starts with server sending INFO
+            // We'll handle it in onmessage
+        };
 
-                    reject(new Error(`Connection closed: ${event.reason || 'Unknown reason'}`));
-                };
+        ws.onmessage = (event) => {
+            this.handleNatsMessage(event.data);
+        };
 
-                // Connection timeout
-                setTimeout(() => {
-                    if (this.isConnecting) {
-                        this.isConnecting = false;
-                        this.ws?.close();
-                        reject(new Error('NATS connection timeout (10s)'));
-                    }
-                }, this.options.timeout);
+        ws.onerror = (error) => {
+            if (this.ws !== ws) {
+                return;
+            }
+
+            if (this.options.debug) {
+                console.error('NATS WebSocket: Connection error', error);
+            }
+            this.trigger('error', error);
+            this.settleConnect(new Error('NATS WebSocket connection error'));
+        };
+
+        ws.onclose = (event) => this.handleClose(ws, event);
 
-            } catch (error) {
-                this.isConnecting = false;
-                this.connected = false;
-                reject(error);
+        // Connection timeout, cleared once the handshake settles so it never holds the process open
+        this.connectTimer = setTimeout(() => {
+            if (this.ws === ws && this.pendingConnect?.promise === promise) {
+                this.settleConnect(new Error(`NATS connection timeout (${this.options.timeout}ms)`));
+                this.closeAction = 'retry';
+                ws.close();
             }
-        });
+        }, this.options.timeout);
 
-        return this.connectionPromise;
+        return promise;
     }
 
-    private handleNatsMessage(data: string | ArrayBuffer): void {
-        try {
-            let messageStr: string;
+    private handleClose(ws: WebSocketLike, event: any): void {
+        // Sockets replaced by disconnect() have nothing left to clean up
+        if (this.ws !== ws) {
+            return;
+        }
 
-            if (data instanceof ArrayBuffer) {
-                // Convert ArrayBuffer to string
-                const decoder = new TextDecoder();
-                messageStr = decoder.decode(data);
-            } else {
-                messageStr = data;
-            }
+        if (this.options.debug) {
+            console.log(`NATS WebSocket: Connection closed`, event.code, event.reason);
+        }
+
+        this.cleanupConnection();
+        this.settleConnect(new Error(`Connection closed: ${event.reason || 'Unknown reason'}`));
+
+        this.trigger('disconnect', event);
+
+        const action = this.closeAction;
+        this.closeAction = null;
+
+        if (this.restarting) {
+            // Deliberate restart (lame duck migration, new credentials)
+            this.restarting = false;
+            this.setState('reconnecting');
+            this.connect().catch(console.error);
+        } else if (action === 'reauthorize') {
+            this.setState('reconnecting');
+            this.reauthorizeChannels()
+                .then(() => this.connectionState === 'reconnecting' ? this.connect() : undefined)
+                .catch(console.error);
+        } else if (action !== 'fail' && this.reconnectAttempts < this.options.maxReconnectAttempts!) {
+            // disconnect() and drain() detach the socket first, so any close that gets here is
+            // unwanted, including the clean close frames nats-server sends on shutdown
+            this.scheduleReconnect();
+        } else {
+            this.setState('failed');
+
+            // Nothing is going to flush the buffer anymore
+            this.outbound.clear(new Error('Connection closed before the message was published'));
+        }
+    }
+
+    // Current connection state, changes are announced with the state_change event
+    public get state(): ConnectionState {
+        return this.connectionState;
+    }
+
+    private setState(state: ConnectionState): void {
+        const previous = this.connectionState;
+        if (previous === state) {
+            return;
+        }
+
+        this.connectionState = state;
+
+        if (this.options.debug) {
+            console.log(`NATS Echo: ${previous} -> ${state}`);
+        }
+
+        this.trigger('state_change', { previous, current: state });
+    }
+
+    private settleConnect(error?: Error): void {
+        this.clearConnectTimer();
+
+        const pending = this.pendingConnect;
+        if (!pending) {
+            return;
+        }
+
+        this.pendingConnect = null;
+        if (error) {
+            pending.reject(error);
+        } else {
+            pending.resolve();
+        }
+    }
+
+    private clearConnectTimer(): void {
+        if (this.connectTimer) {
+            clearTimeout(this.connectTimer);
+            this.connectTimer = null;
+        }
+    }
 
+    private handleNatsMessage(data: string | ArrayBuffer | Uint8Array): void {
+        try {
             if (this.options.debug) {
-                console.log('NATS raw message:', messageStr);
+                console.log('NATS raw message:', typeof data === 'string' ? data : `${data.byteLength} bytes`);
             }
 
-            // Combine with any pending partial message
-            const fullMessage = this.partialMessage + messageStr;
-            this.partialMessage = '';
-
-            // Handle the message
-            this.processNatsMessage(fullMessage);
+            // Frames are fed as bytes; the parser reassembles messages across frame boundaries
+            this.parser.feed(data);
 
         } catch (error) {
             console.error('Failed to handle NATS message:', error, data);
         }
     }
 
-    private processNatsMessage(messageStr: string): void {
-        // Check if we're waiting for data from a MSG command
-        if (this.bytesExpected > 0 && this.pendingData.length < this.bytesExpected) {
-            this.pendingData += messageStr;
+    private handleCompleteMessage(msg: NatsMsg): void {
+        // Decode only once the full payload is in, so multi-byte characters are never split
+        const data = this.decoder.decode(msg.payload);
 
-            if (this.pendingData.length >= this.bytesExpected) {
-                // We have all the data
-                const data = this.pendingData.substring(0, this.bytesExpected);
-                const remaining = this.pendingData.substring(this.bytesExpected);
-                this.bytesExpected = 0;
-                this.pendingData = '';
+        if (this.options.debug) {
+            console.log(`NATS MSG: subject=${msg.subject}, sid=${msg.sid}, reply=${msg.replyTo || '-'}, bytes=${msg.payload.length}`);
+        }
 
-                this.handleCompleteMessage(data);
+        try {
+            // Parse the message data
+            let parsedData;
+            try {
+                parsedData = JSON.parse(data);
+            } catch {
+                parsedData = data;
+            }
 
-                // Process any remaining data
-                if (remaining.trim()) {
-                    this.processNatsMessage(remaining);
+            let headers: NatsHeaders | undefined;
+            if (msg.headers) {
+                try {
+                    headers = NatsHeaders.parse(msg.headers);
+                } catch (error) {
+                    console.error('NATS Echo: Invalid message headers', error);
                 }
             }
-            return;
-        }
 
-        // Split by newlines but preserve empty lines for MSG protocol
-        const lines = messageStr.split('\n');
+            const meta: MessageMeta = { subject: msg.subject, replyTo: msg.replyTo, headers };
 
-        for (let i = 0; i < lines.length; i++) {
-            let line = lines[i];
-
-            // Handle Windows line endings
-            line = line.replace('\r', '');
+            const subjectHandler = this.subjectHandlers.get(msg.sid);
+            if (subjectHandler) {
+                subjectHandler(parsedData, meta);
+                return;
+            }
 
-            if (line.trim() === '') {
-                continue; // Skip empty lines
+            if (msg.sid === this.inboxSid) {
+                this.handleInboxMessage(parsedData, meta);
+                return;
             }
 
-            if (line.startsWith(NATS_PROTOCOL.INFO + ' ')) {
-                this.handleTextInfoMessage(line);
-            } else if (line.startsWith(NATS_PROTOCOL.OK)) {
-                this.handleOkMessage();
-            } else if (line.startsWith(NATS_PROTOCOL.ERR + ' ')) {
-                this.handleTextErrorMessage(line);
-            } else if (line.startsWith(NATS_PROTOCOL.PING)) {
-                this.handlePing();
-            } else if (line.startsWith(NATS_PROTOCOL.PONG)) {
-                // Ignore PONG responses
-                if (this.options.debug) {
-                    console.log('NATS: Received PONG');
-                }
-            } else if (line.startsWith(NATS_PROTOCOL.MSG + ' ')) {
-                // Handle MSG protocol: MSG <subject> <sid> [reply-to] <#bytes>\r\n<data>
-                this.handleMsgHeader(line, lines.slice(i + 1).join('\n'));
-                break; // Rest will be handled by msg handler
-            } else {
-                if (this.options.debug) {
-                    console.log('Unhandled NATS line:', line);
-                }
+            const channelName = this.resolveChannelName(msg.sid, msg.subject);
+
+            if (!channelName && this.options.debug) {
+                console.log(`NATS MSG for unknown subscription: sid=${msg.sid}, subject=${msg.subject}`);
             }
+
+            this.dispatchMessage(channelName || this.subjectMapper.fromSubject(msg.subject) || msg.subject, parsedData, meta);
+
+        } catch (error) {
+            console.error('Error handling complete message:', error, data);
         }
     }
 
-    private handleMsgHeader(headerLine: string, remainingData: string): void {
-        // Parse: MSG <subject> <sid> [reply-to] <#bytes>
-        const parts = headerLine.split(' ');
-        if (parts.length < 4) {
-            console.error('Invalid MSG header:', headerLine);
+    private dispatchMessage(channelName: string, parsedData: any, meta: MessageMeta): void {
+        // Our own whispers come back because CONNECT sets echo, and toOthers() events name our socket
+        const socket = eventSocket(parsedData);
+        if (socket && socket === this.socketIdentifier) {
             return;
         }
 
-        const subject = parts[1];
-        const sid = parts[2];
-
-        // Find the byte count (last part before optional reply-to)
-        let byteCountStr = parts[parts.length - 1];
-        this.bytesExpected = parseInt(byteCountStr, 10);
+        // Convert to Laravel broadcast format
+        const laravelEvent: BroadcastEvent = {
+            event: parsedData.event || 'NatsMessage',
+            data: parsedData.data || parsedData,
+            channel: channelName,
+            socket,
+            timestamp: new Date().toISOString(),
+            subject: meta.subject,
+            replyTo: meta.replyTo,
+            headers: meta.headers,
+            sequence: meta.sequence
+        };
 
-        if (isNaN(this.bytesExpected)) {
-            console.error('Invalid byte count in MSG:', byteCountStr);
-            this.bytesExpected = 0;
+        const history = this.historyFetches.get(channelName);
+        if (history) {
+            history.buffered.push(laravelEvent);
             return;
         }
 
-        if (this.options.debug) {
-            console.log(`NATS MSG: subject=${subject}, sid=${sid}, bytes=${this.bytesExpected}`);
+        this.handleBroadcastEvent(laravelEvent);
+    }
+
+    private handleInboxMessage(data: any, meta: MessageMeta): void {
+        const token = meta.subject.substring(this.inboxPrefix.length + 1);
+        const handler = this.inboxHandlers.get(token);
+
+        if (!handler) {
+            if (this.options.debug) {
+                console.log(`NATS Echo: No handler for inbox ${meta.subject}`);
+            }
+            return;
         }
 
-        // Start collecting data
-        this.pendingData = remainingData;
+        try {
+            handler(data, meta);
+        } catch (error) {
+            console.error(`Error in inbox handler for ${meta.subject}:`, error);
+        }
+    }
 
-        // If we already have all the data, process it immediately
-        if (this.pendingData.length >= this.bytesExpected) {
-            const data = this.pendingData.substring(0, this.bytesExpected);
-            const extra = this.pendingData.substring(this.bytesExpected);
-            this.bytesExpected = 0;
-            this.pendingData = '';
+    private resolveChannelName(sid: string, subject: string): string | null {
+        // The sid is authoritative: it identifies exactly the channel that subscribed
+        const channelName = this.sidIndex.get(sid);
+        if (channelName && this.channels.has(channelName)) {
+            return channelName;
+        }
 
-            this.handleCompleteMessage(data);
+        // Fall back to the subject for subscriptions we don't know the sid of
+        const mapped = this.subjectMapper.fromSubject(subject);
+        if (mapped !== null && this.channels.has(mapped)) {
+            return mapped;
+        }
 
-            // Process any extra data
-            if (extra.trim()) {
-                this.processNatsMessage(extra);
+        // Then to wildcard channels covering the subject
+        for (const name of this.channels.keys()) {
+            if (subjectMatches(this.channelSubject(name), subject)) {
+                return name;
             }
         }
+
+        return null;
     }
 
-    private handleCompleteMessage(data: string): void {
+    private handleInfoMessage(info: any): void {
         try {
-            // Parse the message data
-            let parsedData;
-            try {
-                parsedData = JSON.parse(data);
-            } catch {
-                parsedData = data;
+            if (this.options.debug) {
+                console.log('NATS Server Info:', info);
             }
 
-            // Convert to Laravel broadcast format
-            const laravelEvent: BroadcastEvent = {
-                event: parsedData.event || 'NatsMessage',
-                data: parsedData.data || parsedData,
-                channel: 'unknown', // We'll set this from subscription mapping
-                socket: this.socketIdentifier,
-                timestamp: new Date().toISOString()
-            };
+            this.mergeClusterUrls(info);
+
+            // Servers send INFO again after the handshake for cluster changes and lame duck mode
+            if (this.serverInfo) {
+                this.serverInfo = { ...this.serverInfo, ...info };
+                if (info.ldm) {
+                    this.handleLameDuckMode();
+                }
+                return;
+            }
 
-            // Try to find the channel by SID (we need to track this better)
-            // For now, we'll rely on the subject from the subscription
-            this.handleBroadcastEvent(laravelEvent);
+            this.serverInfo = info;
+
+            this.sendConnect(info).catch((error) => {
+                console.error('NATS Echo: Failed to authenticate', error);
+                this.trigger('error', error);
+                this.closeAction = 'retry';
+                this.ws?.close();
+            });
 
         } catch (error) {
-            console.error('Error handling complete message:', error, data);
+            console.error('Failed to handle INFO message:', error, info);
         }
     }
 
-    private handleTextInfoMessage(infoLine: string): void {
-        try {
-            // Extract JSON from "INFO {json}"
-            const jsonStr = infoLine.substring(NATS_PROTOCOL.INFO.length + 1);
-            const info = JSON.parse(jsonStr);
+    private async sendConnect(info: any): Promise<void> {
+        // Send CONNECT response with authentication
+        const connectMsg: any = {
+            lang: 'javascript',
+            version: '2.0.0',
+            protocol: 0, // 0 = text protocol
+            verbose: this.options.debug || false,
+            pedantic: false,
+            headers: info.headers || false,
+            // Get an immediate 503 status instead of a timeout when nobody answers a request
+            no_responders: info.headers || false,
+            echo: true,
+            tls_required: false,
+            name: `laravel-echo-nats-${this.socketIdentifier}`
+        };
 
-            if (this.options.debug) {
-                console.log('NATS Server Info:', info);
+        // Add authentication if required
+        if (info.auth_required) {
+            if (this.options.user) {
+                connectMsg.user = this.options.user;
+            }
+            if (this.options.pass) {
+                connectMsg.pass = this.options.pass;
+            }
+            if (this.options.token) {
+                connectMsg.auth_token = this.options.token;
             }
 
-            this.serverInfo = info;
+            Object.assign(connectMsg, await this.buildNkeyAuth(info.nonce));
+        }
+
+        // Remove undefined values
+        Object.keys(connectMsg).forEach(key => {
+            if (connectMsg[key] === undefined) {
+                delete connectMsg[key];
+            }
+        });
+
+        // Send CONNECT command, the PONG to the following PING completes the handshake
+        const connectCommand = `${NATS_PROTOCOL.CONNECT} ${JSON.stringify(connectMsg)}\r\n`;
+        this.handshakePending = true;
+        this.sendRawToNats(connectCommand);
+        this.ping().then(() => this.completeHandshake(), () => {});
 
-            // Send CONNECT response with authentication
-            const connectMsg: any = {
-                lang: 'javascript',
-                version: '2.0.0',
-                protocol: 0, // 0 = text protocol
-                verbose: this.options.debug || false,
-                pedantic: false,
-                headers: info.headers || false,
-                echo: true,
-                tls_required: false,
-                name: `laravel-echo-nats-${this.socketIdentifier}`
+        if (this.options.debug) {
+            console.log('Sent CONNECT:', connectCommand);
+        }
+    }
+
+    private async resolveCredentials(nonce?: string): Promise<NatsCredentials> {
+        let credentials: NatsCredentials = {
+            jwt: this.options.jwt,
+            nkey: this.options.nkey,
+            seed: this.options.seed,
+            ...(this.options.creds ? parseCreds(this.options.creds) : {})
+        };
+
+        // Short-lived credentials (and optionally the signature) can come from the app
+        if (this.options.authenticator) {
+            const provided = await this.options.authenticator(nonce);
+            credentials = {
+                ...credentials,
+                ...(provided.creds ? parseCreds(provided.creds) : {}),
+                ...provided
             };
+        }
 
-            // Add authentication if required
-            if (info.auth_required) {
-                if (this.options.user) {
-                    connectMsg.user = this.options.user;
-                }
-                if (this.options.pass) {
-                    connectMsg.pass = this.options.pass;
-                }
-                if (this.options.token) {
-                    connectMsg.auth_token = this.options.token;
-                }
-            }
+        // Credentials granted by a channel authorization take precedence
+        if (this.appliedGrant) {
+            credentials = { ...credentials, ...this.appliedGrant.credentials };
+        }
 
-            // Remove undefined values
-            Object.keys(connectMsg).forEach(key => {
-                if (connectMsg[key] === undefined) {
-                    delete connectMsg[key];
-                }
-            });
+        return credentials;
+    }
 
-            // Send CONNECT command
-            const connectCommand = `${NATS_PROTOCOL.CONNECT} ${JSON.stringify(connectMsg)}\r\n`;
-            this.sendRawToNats(connectCommand);
+    private async buildNkeyAuth(nonce?: string): Promise<Record<string, string>> {
+        const credentials = await this.resolveCredentials(nonce);
+        const auth: Record<string, string> = {};
 
-            if (this.options.debug) {
-                console.log('Sent CONNECT:', connectCommand);
+        if (credentials.jwt) {
+            auth.jwt = credentials.jwt;
+        }
+
+        if (credentials.sig) {
+            auth.sig = credentials.sig;
+        } else if (credentials.seed && nonce) {
+            auth.sig = signNonce(credentials.seed, nonce);
+        }
+
+        // With a JWT the server takes the public key from the JWT itself
+        if (!credentials.jwt) {
+            const nkey = credentials.nkey || (credentials.seed ? fromSeed(credentials.seed).getPublicKey() : undefined);
+            if (nkey) {
+                auth.nkey = nkey;
             }
+        }
 
-        } catch (error) {
-            console.error('Failed to handle INFO message:', error, infoLine);
+        if ((auth.jwt || auth.nkey) && !auth.sig && nonce) {
+            throw new Error('NATS server requires a nonce signature, provide a seed or a sig');
+        }
+
+        return auth;
+    }
+
+    private mergeClusterUrls(info: any): void {
+        if (this.options.ignoreClusterUpdates) {
+            return;
+        }
+
+        // On WebSocket connections the server reports its websocket endpoints in connect_urls
+        const urls: string[] = info.ws_connect_urls || info.connect_urls || [];
+        const added = this.servers.addDiscovered(urls);
+
+        if (added > 0 && this.options.debug) {
+            console.log('NATS Echo: Discovered cluster servers', this.servers.urls());
         }
     }
 
-    private handleTextErrorMessage(errLine: string): void {
-        // Extract error message from "-ERR 'message'"
-        let errorMessage = 'Unknown error';
+    private handleLameDuckMode(): void {
+        if (this.options.debug) {
+            console.log('NATS Echo: Server entered lame duck mode', this.servers.current());
+        }
+
+        this.trigger('lameDuck', this.servers.current());
 
-        if (errLine.startsWith("-ERR '") && errLine.endsWith("'")) {
-            errorMessage = errLine.substring(6, errLine.length - 1);
-        } else if (errLine.startsWith('-ERR ')) {
-            errorMessage = errLine.substring(5);
+        if (this.servers.size() < 2) {
+            // Nowhere to go, keep the connection until the server closes it
+            return;
         }
 
+        this.servers.next();
+        this.restartConnection();
+    }
+
+    // Close and immediately reopen the connection, channels are resubscribed on connect
+    private restartConnection(): void {
+        this.restarting = true;
+        this.ws?.close();
+    }
+
+    private handleErrorMessage(message: string): void {
+        const errorMessage = message || 'Unknown error';
         const error = new Error(`NATS server error: ${errorMessage}`);
 
         console.error('NATS error:', errorMessage);
 
+        // Rejected subscriptions belong to their channel, the connection stays up
+        const violation = errorMessage.match(SUBSCRIPTION_VIOLATION);
+        const channelName = violation ? this.channelForSubject(violation[1]) : null;
+        if (channelName) {
+            this.subscriptionErrors.set(channelName, error);
+            this.reportSubscriptionError(channelName, { type: 'PermissionError', status: 403, error });
+            return;
+        }
+
         this.trigger('error', error);
 
-        if (this.isConnecting) {
-            this.isConnecting = false;
-            this.connected = false;
+        // Errors during the handshake (e.g. authorization violations) end the connection,
+        // unless an expired channel grant is to blame: the channels are then authorized again
+        if (this.handshakePending) {
+            this.settleConnect(error);
+            const reauthorize = AUTHENTICATION_FAILURE.test(errorMessage) && this.channelGrants.size > 0 && !this.reauthorized;
+            this.closeAction = reauthorize ? 'reauthorize' : 'fail';
             this.ws?.close();
-
-            // Reject the connection promise
-            if (this.connectionPromise) {
-                const promise = this.connectionPromise as any;
-                promise._reject?.(error);
-            }
         }
     }
 
@@ -488,14 +825,84 @@ export class NatsConnector implements LaravelEchoConnector {
         this.sendRawToNats(`${NATS_PROTOCOL.PONG}\r\n`);
     }
 
+    private handlePong(): void {
+        if (this.options.debug) {
+            console.log('NATS: Received PONG');
+        }
+
+        // The server answers PINGs in order
+        this.pongWaiters.shift()?.resolve();
+    }
+
+    private handleStaleConnection(): void {
+        const ws = this.ws;
+        if (!ws) {
+            return;
+        }
+
+        console.warn(`NATS Echo: ${this.pongWaiters.length} PINGs unanswered, reconnecting`);
+
+        // Closing a dead socket can take a long time, so don't wait for its close event
+        ws.onopen = null;
+        ws.onmessage = null;
+        ws.onerror = null;
+        ws.onclose = null;
+        ws.close();
+
+        this.closeAction = 'retry';
+        this.handleClose(ws, { code: 4000, reason: 'Stale connection', wasClean: false });
+    }
+
+    // Resolves once the server processed everything sent before
+    public flush(): Promise<void> {
+        if (!this.isConnected()) {
+            return Promise.reject(new Error('Cannot flush, not connected to NATS'));
+        }
+
+        return this.ping();
+    }
+
+    // Round trip time to the server in milliseconds
+    public async rtt(): Promise<number> {
+        const start = Date.now();
+        await this.flush();
+        return Date.now() - start;
+    }
+
+    private ping(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (this.ws?.readyState !== WS_OPEN) {
+                reject(new Error('Cannot PING, connection not open'));
+                return;
+            }
+
+            this.pongWaiters.push({ resolve, reject });
+            this.sendRawToNats(`${NATS_PROTOCOL.PING}\r\n`);
+        });
+    }
+
     private handleOkMessage(): void {
+        // Verbose mode acknowledges CONNECT before the PONG arrives
+        if (this.handshakePending) {
+            this.completeHandshake();
+        }
+    }
+
+    private completeHandshake(): void {
+        // Verbose mode completes on +OK before the PONG arrives
+        if (!this.handshakePending) {
+            return;
+        }
+
+        this.reauthorized = false;
+
         if (this.options.debug) {
             console.log('NATS: Server accepted connection');
         }
 
-        this.isConnecting = false;
-        this.connected = true;
+        this.handshakePending = false;
         this.reconnectAttempts = 0;
+        this.setState('connected');
 
         // Start ping interval
         this.startPingInterval();
@@ -503,15 +910,14 @@ export class NatsConnector implements LaravelEchoConnector {
         // Resubscribe to all channels
         this.resubscribeAll();
 
+        // Then deliver what was published while disconnected
+        this.outbound.flush(pubMsg => this.publish(pubMsg));
+
         // Trigger events
         this.trigger('connect');
         this.trigger('connected');
 
-        // Resolve connection promise
-        if (this.connectionPromise) {
-            const promise = this.connectionPromise as any;
-            promise._resolve?.();
-        }
+        this.settleConnect();
     }
 
     private startPingInterval(): void {
@@ -521,11 +927,17 @@ export class NatsConnector implements LaravelEchoConnector {
 
         const interval = this.options.pingInterval || 30000;
         this.pingInterval = setInterval(() => {
-            if (this.ws?.readyState === WebSocket.OPEN && this.connected) {
+            if (this.isConnected()) {
+                // A half-open socket never answers, it only shows as unanswered PINGs
+                if (this.pongWaiters.length >= this.options.maxPingsOut!) {
+                    this.handleStaleConnection();
+                    return;
+                }
+
                 if (this.options.debug) {
                     console.log('NATS: Sending PING');
                 }
-                this.sendRawToNats(`${NATS_PROTOCOL.PING}\r\n`);
+                this.ping().catch(() => {});
             }
         }, interval);
     }
@@ -535,15 +947,26 @@ export class NatsConnector implements LaravelEchoConnector {
             clearInterval(this.pingInterval);
             this.pingInterval = null;
         }
+        this.clearConnectTimer();
+
+        // Consumers keep their position and resume from it on resubscribe
+        this.consumers.forEach(consumer => consumer.stop());
+        this.historyFetches.forEach(fetch => fetch.abort?.(new Error('Connection closed while fetching history')));
+        this.subjectHandlers.clear();
+
+        // PINGs sent on this connection will never be answered
+        const pongWaiters = this.pongWaiters;
+        this.pongWaiters = [];
+        pongWaiters.forEach(waiter => waiter.reject(new Error('Connection closed before PONG')));
 
         this.serverInfo = null;
-        this.partialMessage = '';
-        this.pendingData = '';
-        this.bytesExpected = 0;
+        this.handshakePending = false;
+        this.inboxSubscribed = false;
+        this.parser.reset();
     }
 
     private sendRawToNats(command: string): void {
-        if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+        if (this.ws && this.ws.readyState === WS_OPEN) {
             if (this.options.debug) {
                 console.log('NATS: Sending:', command);
             }
@@ -554,15 +977,24 @@ export class NatsConnector implements LaravelEchoConnector {
     }
 
     private sendToNats(data: any): void {
-        if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+        if (this.ws && this.ws.readyState === WS_OPEN) {
             let command = '';
 
             if (data.op === 'pub') {
-                // PUB <subject> <#bytes>\r\n<data>
-                const subject = data.subject;
+                // PUB <subject> [reply-to] <#bytes>\r\n<data>
+                const subject = data.reply ? `${data.subject} ${data.reply}` : data.subject;
                 const payload = typeof data.data === 'string' ? data.data : JSON.stringify(data.data);
                 const size = new TextEncoder().encode(payload).length;
                 command = `${NATS_PROTOCOL.PUB} ${subject} ${size}\r\n${payload}\r\n`;
+            } else if (data.op === 'hpub') {
+                // HPUB <subject> [reply-to] <#header bytes> <#total bytes>\r\n<headers><data>
+                const subject = data.reply ? `${data.subject} ${data.reply}` : data.subject;
+                const payload = typeof data.data === 'string' ? data.data : JSON.stringify(data.data);
+                const headerBlock = (data.headers as NatsHeaders).encode();
+                const encoder = new TextEncoder();
+                const headerSize = encoder.encode(headerBlock).length;
+                const totalSize = headerSize + encoder.encode(payload).length;
+                command = `${NATS_PROTOCOL.HPUB} ${subject} ${headerSize} ${totalSize}\r\n${headerBlock}${payload}\r\n`;
             } else if (data.op === 'sub') {
                 // SUB <subject> <sid>
                 const subject = data.subject;
@@ -611,10 +1043,15 @@ export class NatsConnector implements LaravelEchoConnector {
             console.log(`NATS Echo: Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.options.maxReconnectAttempts})`);
         }
 
+        this.setState('reconnecting');
         this.trigger('reconnecting', this.reconnectAttempts);
 
+        // Try the next server in the pool on every attempt
+        this.servers.next();
+
         this.reconnectTimer = setTimeout(() => {
-            if (this.ws?.readyState === WebSocket.CLOSED) {
+            this.reconnectTimer = null;
+            if (this.connectionState === 'reconnecting' && !this.pendingConnect) {
                 this.connect().catch(console.error);
             }
         }, delay);
@@ -625,33 +1062,78 @@ export class NatsConnector implements LaravelEchoConnector {
             ? event.channel
             : event.channel.name;
 
-        // Process event with namespace
-        const formattedEvent = this.eventFormatter.format(this.options.namespace!, event.event);
+        const meta: MessageMeta = {
+            subject: event.subject || channelName,
+            channel: (event.subject && this.subjectMapper.fromSubject(event.subject)) || channelName,
+            replyTo: event.replyTo,
+            headers: event.headers,
+            sequence: event.sequence,
+            historical: event.historical
+        };
+
+        // Let listeners answer requests
+        if (event.replyTo) {
+            const replyTo = event.replyTo;
+            meta.respond = (data: any, options: PublishOptions = {}) => this.send(replyTo, data, options);
+        }
 
         // Trigger global event listeners
         this.trigger('message', event);
-        this.trigger(`event:${formattedEvent}`, event.data);
-
-        // Trigger channel-specific listeners
-        const channel = this.channels.get(channelName);
-        if (channel) {
-            channel.trigger(formattedEvent, event.data);
+        this.trigger(`event:${event.event}`, event.data, meta);
 
-            // Also trigger with original event name for compatibility
-            channel.trigger(event.event, event.data);
-        }
+        // Listeners are registered under formatted names, which match the broadcast name
+        this.channels.get(channelName)?.trigger(event.event, event.data, meta);
     }
 
     private async resubscribeAll(): Promise<void> {
+        if (this.inboxHandlers.size > 0) {
+            this.subscribeInbox();
+        }
+
+        const resubscribed: string[] = [];
         for (const [channelName, channel] of this.channels.entries()) {
             if (channel.isSubscribed()) {
+                this.subscriptionErrors.delete(channelName);
                 try {
                     await this.sendSubscribe(channelName, channel);
-                } catch (error) {
+                    resubscribed.push(channelName);
+                } catch (error: any) {
                     console.error(`Failed to resubscribe to ${channelName}:`, error);
+                    this.reportSubscriptionError(channelName, { type: 'JetStreamError', status: 0, error });
                 }
             }
         }
+
+        if (resubscribed.length === 0) {
+            return;
+        }
+
+        // Confirm the SUBs, permission errors arrive before the PONG
+        try {
+            await this.flush();
+        } catch {
+            // Lost the connection again, the next resubscribe confirms them
+            return;
+        }
+
+        resubscribed.forEach(channelName => {
+            if (!this.subscriptionErrors.delete(channelName)) {
+                this.channels.get(channelName)?.trigger('subscription_succeeded', undefined);
+            }
+        });
+    }
+
+    private reportSubscriptionError(channelName: string, error: SubscriptionError): void {
+        this.channels.get(channelName)?.trigger('subscription_error', error);
+    }
+
+    private channelForSubject(subject: string): string | null {
+        for (const channelName of this.channels.keys()) {
+            if (this.channelSubject(channelName) === subject) {
+                return channelName;
+            }
+        }
+        return null;
     }
 
     private async sendSubscribe(channelName: string, channel: Channel): Promise<void> {
@@ -661,21 +1143,180 @@ export class NatsConnector implements LaravelEchoConnector {
             return;
         }
 
+        if (subscription.options?.durable) {
+            await this.startConsumer(channelName);
+            return;
+        }
+
         // Send NATS SUBSCRIBE command
         const subMsg = {
             op: 'sub',
-            subject: channelName,
-            sid: subscription.sid
+            subject: this.channelSubject(channelName),
+            sid: subscription.sid,
+            queue: subscription.options?.queue
         };
 
         this.sendToNats(subMsg);
     }
 
+    private async startConsumer(channelName: string): Promise<void> {
+        let consumer = this.consumers.get(channelName);
+        if (!consumer) {
+            consumer = new OrderedConsumer(
+                this,
+                this.options.jetstream || {},
+                { filterSubject: this.channelSubject(channelName), deliverPolicy: 'new' },
+                (data, meta) => this.dispatchMessage(channelName, data, meta)
+            );
+            this.consumers.set(channelName, consumer);
+        }
+
+        // Resumes after the last delivered message when the channel was consumed before
+        await consumer.start();
+    }
+
+    private stopConsumer(channelName: string): void {
+        const consumer = this.consumers.get(channelName);
+        if (consumer) {
+            consumer.stop();
+            this.consumers.delete(channelName);
+        }
+    }
+
+    // Replay recent events of a channel from JetStream, live events wait until it is done
+    public async fetchHistory(channelName: string, options: HistoryOptions = {}): Promise<void> {
+        if (this.historyFetches.has(channelName)) {
+            throw new Error(`History of ${channelName} is already being fetched`);
+        }
+
+        await this.whenConnected();
+
+        const limit = options.limit ?? HISTORY_LIMIT;
+        const fetch: HistoryFetch = { buffered: [], delivered: [], lastSequence: 0 };
+        this.historyFetches.set(channelName, fetch);
+
+        try {
+            const subject = this.channelSubject(channelName);
+            const jetstream = { ...this.options.jetstream };
+            jetstream.stream = await lookupStream(this, jetstream, subject);
+
+            // Replay from a start time, or from a sequence close enough to the end to hold the last events
+            const config: OrderedConsumerConfig = options.since !== undefined
+                ? { filterSubject: subject, deliverPolicy: 'by_start_time', optStartTime: new Date(options.since).toISOString() }
+                : {
+                    filterSubject: subject,
+                    deliverPolicy: 'by_start_sequence',
+                    optStartSeq: await findStartSequence(this, jetstream, jetstream.stream, subject, limit)
+                };
+
+            await new Promise<void>((resolve, reject) => {
+                const consumer = new OrderedConsumer(
+                    this,
+                    jetstream,
+                    config,
+                    (data, meta, info) => {
+                        // Pending counts the messages after this one, only the last ones are kept
+                        if (info.pending < limit) {
+                            this.deliverHistorical(channelName, fetch, data, meta, info.timestamp);
+                        }
+
+                        if (info.pending === 0) {
+                            consumer.stop();
+                            resolve();
+                        }
+                    }
+                );
+
+                fetch.abort = (error) => {
+                    consumer.stop();
+                    reject(error);
+                };
+
+                consumer.start().then(response => {
+                    if (!response.num_pending) {
+                        consumer.stop();
+                        resolve();
+                    }
+                }, reject);
+            });
+        } finally {
+            this.historyFetches.delete(channelName);
+            this.flushHistoryBuffer(fetch);
+        }
+    }
+
+    private deliverHistorical(channelName: string, fetch: HistoryFetch, data: any, meta: MessageMeta, timestamp: number): void {
+        const event: BroadcastEvent = {
+            event: data.event || 'NatsMessage',
+            data: data.data || data,
+            channel: channelName,
+            socket: eventSocket(data),
+            timestamp: new Date(timestamp).toISOString(),
+            subject: meta.subject,
+            headers: meta.headers,
+            sequence: meta.sequence,
+            historical: true
+        };
+
+        fetch.delivered.push(this.eventFingerprint(event));
+        fetch.lastSequence = meta.sequence || fetch.lastSequence;
+
+        this.handleBroadcastEvent(event);
+    }
+
+    private flushHistoryBuffer(fetch: HistoryFetch): void {
+        // Durable channels know the stream sequence of live events
+        let live = fetch.buffered.filter(event => event.sequence === undefined || event.sequence > fetch.lastSequence);
+
+        // Plain subscriptions overlap where the end of the history equals the start of the live events
+        const fingerprints = live.map(event => this.eventFingerprint(event));
+        for (let overlap = Math.min(fingerprints.length, fetch.delivered.length); overlap > 0; overlap--) {
+            const tail = fetch.delivered.slice(fetch.delivered.length - overlap);
+            if (tail.every((fingerprint, i) => fingerprint === fingerprints[i])) {
+                live = live.slice(overlap);
+                break;
+            }
+        }
+
+        live.forEach(event => this.handleBroadcastEvent(event));
+    }
+
+    private eventFingerprint(event: BroadcastEvent): string {
+        return JSON.stringify([event.event, event.data]);
+    }
+
+    // Rejects once the connector gives up on connecting or is disconnected
+    private whenConnected(): Promise<void> {
+        if (this.isConnected()) {
+            return Promise.resolve();
+        }
+        if (this.connectionState === 'failed' || this.connectionState === 'disconnected') {
+            return Promise.reject(new Error(`Not connected to NATS (${this.connectionState})`));
+        }
+
+        return new Promise((resolve, reject) => {
+            const handler = (change: StateChange) => {
+                if (change.current === 'connected') {
+                    this.off('state_change', handler);
+                    resolve();
+                } else if (change.current === 'failed' || change.current === 'disconnected') {
+                    this.off('state_change', handler);
+                    reject(new Error(`Not connected to NATS (${change.current})`));
+                }
+            };
+            this.on('state_change', handler);
+        });
+    }
+
     public async authenticatePrivateChannel(channelName: string): Promise<AuthResponse> {
+        // A connection authenticates with a single JWT, the endpoint may issue one that covers the other channels too
+        const grantedChannels = Array.from(this.channelGrants.keys()).filter(name => name !== channelName);
+
         try {
             const response = await this.axios.post(this.options.authEndpoint!, {
                 channel_name: channelName,
-                socket_id: this.socketIdentifier
+                socket_id: this.socketIdentifier,
+                ...(grantedChannels.length > 0 ? { granted_channels: grantedChannels } : {})
             });
 
             return response.data;
@@ -685,89 +1326,200 @@ export class NatsConnector implements LaravelEchoConnector {
         }
     }
 
+    // Apply the NATS specific grants of a channel auth response
+    public async authorizeChannel(channelName: string, auth: AuthResponse): Promise<void> {
+        const allowed = auth.permissions?.subscribe;
+        const subject = this.channelSubject(channelName);
+        if (allowed && !allowed.some(pattern => subjectMatches(pattern, subject))) {
+            throw new Error(`Not permitted to subscribe to ${channelName}`);
+        }
+
+        if (!auth.jwt) {
+            return;
+        }
+
+        const grant: ChannelGrant = {
+            credentials: auth.seed ? { jwt: auth.jwt, seed: auth.seed } : { jwt: auth.jwt },
+            permissions: jwtPermissions(auth.jwt) || auth.permissions || null
+        };
+        this.channelGrants.delete(channelName);
+        this.channelGrants.set(channelName, grant);
+
+        // Short-lived JWTs differ on every request, a grant the connection already has changes nothing
+        if (this.appliedGrant && grantIncludes(this.appliedGrant, grant)) {
+            return;
+        }
+
+        const selected = this.selectGrant();
+        if (selected === this.appliedGrant) {
+            return;
+        }
+        this.appliedGrant = selected;
+
+        // NATS only authenticates on CONNECT, so the new grant needs a fresh connection
+        if (this.isConnected()) {
+            if (this.options.debug) {
+                console.log(`NATS Echo: Re-authenticating with the grant for ${channelName}`);
+            }
+            this.restartConnection();
+        }
+    }
+
+    // The newest grant that allows every authorized channel, or else the newest grant
+    private selectGrant(): ChannelGrant | null {
+        const grants = Array.from(this.channelGrants.values()).reverse();
+        const subjects = Array.from(this.channelGrants.keys()).map(name => this.channelSubject(name));
+
+        const covering = grants.find(grant =>
+            grant.permissions?.subscribe
+            && subjects.every(subject => grant.permissions!.subscribe!.some(pattern => subjectMatches(pattern, subject)))
+        );
+        if (!covering && grants.length > 1) {
+            console.warn('NATS Echo: No channel grant covers every private channel, the newest one is used');
+        }
+
+        return covering || grants[0] || null;
+    }
+
+    // Ask the auth endpoint again for channels whose grant the server no longer accepts
+    private async reauthorizeChannels(): Promise<void> {
+        const channelNames = Array.from(this.channelGrants.keys());
+        this.channelGrants.clear();
+        this.appliedGrant = null;
+        this.reauthorized = true;
+
+        for (const channelName of channelNames) {
+            try {
+                const auth = await this.authenticatePrivateChannel(channelName);
+                await this.authorizeChannel(channelName, auth);
+            } catch (error: any) {
+                console.error(`NATS Echo: Failed to authorize ${channelName} again:`, error);
+                this.reportSubscriptionError(channelName, { type: 'AuthError', status: error?.response?.status || 0, error });
+            }
+        }
+    }
+
     // ========== Connector Interface Implementation ==========
 
-    public listen(channelName: string, event: string, callback: Function): Channel {
-        const channel = this.channel(channelName);
+    public listen<Events extends EventMap = EventMap, E extends ListenableEvent<Events> = EventName<Events>>(
+        channelName: string,
+        event: E,
+        callback: ListenerCallback<Events, E>,
+        options: ChannelOptions = {}
+    ): Channel<Events> {
+        const channel = this.channel<Events>(channelName, options);
         channel.listen(event, callback);
         return channel;
     }
 
-    public channel(channelName: string): Channel {
+    // Wildcard names such as 'orders.*' or 'tenant.42.>' receive every matching channel.
+    // The event map only types the listeners, every call for a name returns the same channel
+    public channel<Events extends EventMap = EventMap>(channelName: string, options: ChannelOptions = {}): Channel<Events> {
         if (!this.channels.has(channelName)) {
-            const channel = new Channel(this, channelName);
-            this.channels.set(channelName, channel);
-
-            // Create subscription entry
-            const sid = 'sid_' + Math.random().toString(36).substr(2, 9);
-            this.subscriptions.set(channelName, {
-                sid,
-                channel,
-                listeners: {}
-            });
+            this.registerChannel(channelName, new Channel(this, channelName, options), 'sid_', options);
+        } else {
+            this.applyChannelOptions(channelName, options);
         }
-        return this.channels.get(channelName)!;
+        return this.channels.get(channelName) as unknown as Channel<Events>;
     }
 
-    public privateChannel(channelName: string): PrivateChannel {
+    public privateChannel<Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>(
+        channelName: string,
+        options: ChannelOptions = {}
+    ): PrivateChannel<Events, Whispers> {
         const fullName = `private-${channelName}`;
 
         if (!this.channels.has(fullName)) {
-            const channel = new PrivateChannel(this, channelName);
-            this.channels.set(fullName, channel);
-
-            // Create subscription entry
-            const sid = 'priv_' + Math.random().toString(36).substr(2, 9);
-            this.subscriptions.set(fullName, {
-                sid,
-                channel,
-                listeners: {}
-            });
+            this.registerChannel(fullName, new PrivateChannel(this, channelName, options), 'priv_', options);
+        } else {
+            this.applyChannelOptions(fullName, options);
         }
-        return this.channels.get(fullName) as PrivateChannel;
+        return this.channels.get(fullName) as unknown as PrivateChannel<Events, Whispers>;
     }
 
-    public encryptedPrivateChannel(channelName: string): EncryptedPrivateChannel {
+    public encryptedPrivateChannel<Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>(
+        channelName: string,
+        options: ChannelOptions = {}
+    ): EncryptedPrivateChannel<Events, Whispers> {
         const fullName = `private-encrypted-${channelName}`;
 
         if (!this.channels.has(fullName)) {
-            const channel = new EncryptedPrivateChannel(this, channelName);
-            this.channels.set(fullName, channel);
-
-            // Create subscription entry
-            const sid = 'enc_' + Math.random().toString(36).substr(2, 9);
-            this.subscriptions.set(fullName, {
-                sid,
-                channel,
-                listeners: {}
-            });
+            this.registerChannel(fullName, new EncryptedPrivateChannel(this, channelName, options), 'enc_', options);
+        } else {
+            this.applyChannelOptions(fullName, options);
         }
-        return this.channels.get(fullName) as EncryptedPrivateChannel;
+        return this.channels.get(fullName) as unknown as EncryptedPrivateChannel<Events, Whispers>;
     }
 
-    public join(channelName: string): PresenceChannel {
+    public join<Member = any, Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>(
+        channelName: string,
+        options: ChannelOptions = {}
+    ): PresenceChannel<Member, Events, Whispers> {
         const fullName = `presence-${channelName}`;
 
         if (!this.channels.has(fullName)) {
-            const channel = new PresenceChannel(this, channelName);
-            this.channels.set(fullName, channel);
-
-            // Create subscription entry
-            const sid = 'pres_' + Math.random().toString(36).substr(2, 9);
-            this.subscriptions.set(fullName, {
-                sid,
-                channel,
-                listeners: {}
-            });
+            const channel = new PresenceChannel(this, channelName, options);
+            this.registerChannel(fullName, channel, 'pres_', options);
+
+            // Joining announces the user right away, as Echo does, even without listeners
+            channel.subscribe().catch(console.error);
+        } else {
+            this.applyChannelOptions(fullName, options);
+        }
+        return this.channels.get(fullName) as unknown as PresenceChannel<Member, Events, Whispers>;
+    }
+
+    // Watch keys of a JetStream KV bucket
+    public stateChannel(key: string, options: StateOptions = {}): StateChannel {
+        if (!this.stateChannels.has(key)) {
+            this.stateChannels.set(key, new StateChannel(this, key, options));
+        }
+        return this.stateChannels.get(key)!;
+    }
+
+    private registerChannel(channelName: string, channel: Channel, sidPrefix: string, options: ChannelOptions): void {
+        this.channels.set(channelName, channel);
+
+        // Create subscription entry
+        const sid = sidPrefix + Math.random().toString(36).substr(2, 9);
+        this.subscriptions.set(channelName, {
+            sid,
+            channel,
+            listeners: {},
+            options
+        });
+        this.sidIndex.set(sid, channelName);
+    }
+
+    // Options given for an open channel take effect on its next subscribe, a subscribed channel has to be left first
+    private applyChannelOptions(channelName: string, options: ChannelOptions): void {
+        const subscription = this.subscriptions.get(channelName)!;
+        const current: Record<string, any> = subscription.options || {};
+        const changed = Object.entries(options).some(([key, value]) => current[key] !== value);
+        if (!changed) {
+            return;
+        }
+
+        if (subscription.channel.isSubscribed()) {
+            throw new Error(`Channel ${channelName} is already subscribed with other options, leave it before changing them`);
         }
-        return this.channels.get(fullName) as PresenceChannel;
+
+        subscription.options = { ...current, ...options };
     }
 
     public leave(channelName: string): void {
+        const state = this.stateChannels.get(channelName);
+        if (state) {
+            state.unsubscribe();
+            this.stateChannels.delete(channelName);
+        }
+
         const channel = this.channels.get(channelName);
         if (channel) {
             channel.unsubscribe();
             this.channels.delete(channelName);
+            this.channelGrants.delete(channelName);
+            this.stopConsumer(channelName);
 
             // Send unsubscribe to NATS
             const subscription = this.subscriptions.get(channelName);
@@ -778,6 +1530,7 @@ export class NatsConnector implements LaravelEchoConnector {
                 };
                 this.sendToNats(unsubMsg);
                 this.subscriptions.delete(channelName);
+                this.sidIndex.delete(subscription.sid);
             }
         }
     }
@@ -791,8 +1544,15 @@ export class NatsConnector implements LaravelEchoConnector {
         return this.socketIdentifier;
     }
 
+    // fetch() sending X-Socket-ID, for apps that do not use axios
+    public fetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+        const headers = new Headers(init.headers ?? (typeof Request !== 'undefined' && input instanceof Request ? input.headers : undefined));
+        headers.set('X-Socket-ID', this.socketId());
+        return fetch(input, { ...init, headers });
+    }
+
     public isConnected(): boolean {
-        return this.connected && this.ws?.readyState === WebSocket.OPEN;
+        return this.connectionState === 'connected' && this.ws?.readyState === WS_OPEN;
     }
 
     public disconnect(): void {
@@ -802,9 +1562,16 @@ export class NatsConnector implements LaravelEchoConnector {
         });
         this.channels.clear();
         this.subscriptions.clear();
+        this.sidIndex.clear();
+        this.channelGrants.clear();
+        this.appliedGrant = null;
+
+        this.stateChannels.forEach(state => state.unsubscribe());
+        this.stateChannels.clear();
 
         // Cleanup connection
         this.cleanupConnection();
+        this.outbound.clear(new Error('Disconnected before the message was published'));
 
         // Close WebSocket
         if (this.ws) {
@@ -818,10 +1585,57 @@ export class NatsConnector implements LaravelEchoConnector {
             this.reconnectTimer = null;
         }
 
-        this.connected = false;
+        this.settleConnect(new Error('Disconnected before the connection was established'));
+        this.setState('disconnected');
         this.trigger('disconnected');
     }
 
+    // Stop receiving, let in-flight messages and publishes complete, then close
+    public drain(): Promise<void> {
+        if (!this.drainPromise) {
+            this.drainPromise = this.drainConnection().finally(() => {
+                this.drainPromise = null;
+            });
+        }
+        return this.drainPromise;
+    }
+
+    private async drainConnection(): Promise<void> {
+        if (!this.isConnected()) {
+            this.disconnect();
+            return;
+        }
+
+        let timer: any;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`Drain timed out after ${this.options.drainTimeout}ms`)), this.options.drainTimeout);
+        });
+
+        try {
+            await Promise.race([this.drainSubscriptions(), timeout]);
+        } finally {
+            clearTimeout(timer);
+            this.disconnect();
+        }
+    }
+
+    private async drainSubscriptions(): Promise<void> {
+        this.consumers.forEach(consumer => consumer.stop());
+        this.subscriptions.forEach(subscription => {
+            this.sendToNats({ op: 'unsub', sid: subscription.sid });
+        });
+        this.subjectHandlers.forEach((_, sid) => {
+            this.sendToNats({ op: 'unsub', sid });
+        });
+
+        // Messages sent before the UNSUBs arrive, and are dispatched, ahead of the PONG.
+        // The inbox stays subscribed so pending requests still get their replies.
+        await this.ping();
+
+        this.outbound.flush(pubMsg => this.publish(pubMsg));
+        await this.ping();
+    }
+
     public on(event: string, handler: Function): void {
         if (!this.eventHandlers.has(event)) {
             this.eventHandlers.set(event, new Set());
@@ -856,15 +1670,45 @@ export class NatsConnector implements LaravelEchoConnector {
     // Internal method for channels to subscribe
     public async subscribeChannel(channel: Channel): Promise<void> {
         const channelName = channel.getName();
-        const subscription = this.subscriptions.get(channelName);
 
-        if (!subscription) {
+        if (!this.subscriptions.has(channelName)) {
             throw new Error(`No subscription found for channel ${channelName}`);
         }
 
-        // Only subscribe if we're connected
-        if (this.isConnected()) {
+        // Subscriptions made while disconnected wait for the connection
+        try {
+            await this.whenConnected();
+        } catch (error: any) {
+            // The channel may already be gone after disconnect(), so it is told directly
+            channel.trigger('subscription_error', { type: 'ConnectionError', status: 0, error });
+            throw error;
+        }
+
+        if (this.channels.get(channelName) !== channel) {
+            throw new Error(`Channel ${channelName} was left before it subscribed`);
+        }
+
+        this.subscriptionErrors.delete(channelName);
+
+        try {
             await this.sendSubscribe(channelName, channel);
+        } catch (error: any) {
+            this.reportSubscriptionError(channelName, { type: 'JetStreamError', status: 0, error });
+            throw error;
+        }
+
+        try {
+            // The server answers the PING after processing the SUB, permission errors arrive first
+            await this.flush();
+        } catch {
+            // Connection lost before the confirmation, resubscribeAll confirms it after reconnecting
+            return;
+        }
+
+        const error = this.subscriptionErrors.get(channelName);
+        if (error) {
+            this.subscriptionErrors.delete(channelName);
+            throw error;
         }
     }
 
@@ -873,6 +1717,11 @@ export class NatsConnector implements LaravelEchoConnector {
         const channelName = channel.getName();
         const subscription = this.subscriptions.get(channelName);
 
+        if (subscription?.options?.durable) {
+            this.stopConsumer(channelName);
+            return;
+        }
+
         if (subscription && this.isConnected()) {
             const unsubMsg = {
                 op: 'unsub',
@@ -883,21 +1732,137 @@ export class NatsConnector implements LaravelEchoConnector {
     }
 
     // Helper to send messages (for whispers, etc.)
-    public send(subject: string, data: any): void {
-        if (!this.isConnected()) {
-            console.error('Cannot send, not connected to NATS');
-            return;
-        }
-
-        const pubMsg = {
+    // Publishes made while disconnected are buffered and written once reconnected
+    public send(subject: string, data: any, options: PublishOptions = {}): Promise<void> {
+        const pubMsg: any = {
             op: 'pub',
             subject,
-            data: typeof data === 'string' ? data : JSON.stringify(data)
+            reply: options.reply,
+            data: typeof data === 'string' ? data : JSON.stringify(data),
+            headers: options.headers
         };
 
+        if (this.isConnected()) {
+            this.publish(pubMsg);
+            return Promise.resolve();
+        }
+
+        // Nothing would ever flush the buffer
+        if (this.connectionState === 'disconnected' || this.connectionState === 'failed') {
+            return Promise.reject(new Error(`Cannot publish to ${subject}, the connection is ${this.connectionState}`));
+        }
+
+        if (this.options.debug) {
+            console.log(`NATS Echo: Not connected, buffering publish to ${subject}`);
+        }
+
+        const bytes = new TextEncoder().encode(pubMsg.data).length;
+        return this.outbound.push(pubMsg, bytes, options.ttl);
+    }
+
+    private publish(pubMsg: any): void {
+        // Header support is only known once connected
+        if (pubMsg.headers) {
+            if (this.serverInfo?.headers) {
+                pubMsg = { ...pubMsg, op: 'hpub', headers: NatsHeaders.from(pubMsg.headers) };
+            } else {
+                console.warn('NATS Echo: Server does not support headers, publishing without them');
+            }
+        }
+
         this.sendToNats(pubMsg);
     }
 
+    // Send a request and resolve with the first response
+    public request(subject: string, data: any, options: RequestOptions = {}): Promise<any> {
+        return new Promise((resolve, reject) => {
+            if (!this.isConnected()) {
+                reject(new Error('Cannot send request, not connected to NATS'));
+                return;
+            }
+
+            const timeout = options.timeout || this.options.requestTimeout!;
+
+            const inbox = this.createInbox((response, meta) => {
+                clearTimeout(timer);
+                this.removeInbox(inbox);
+
+                // No responders are reported as an empty message with a 503 status
+                if (meta.headers?.status === 503) {
+                    reject(new Error(`No responders for request to ${subject}`));
+                    return;
+                }
+
+                resolve(response);
+            });
+
+            const timer = setTimeout(() => {
+                this.removeInbox(inbox);
+                reject(new Error(`Request to ${subject} timed out after ${timeout}ms`));
+            }, timeout);
+
+            this.send(subject, data, { headers: options.headers, reply: inbox });
+        });
+    }
+
+    // Create a reply subject on the shared inbox subscription
+    public createInbox(handler: MessageHandler): string {
+        const token = Math.random().toString(36).substr(2, 9);
+        this.inboxHandlers.set(token, handler);
+
+        if (!this.inboxSubscribed) {
+            this.subscribeInbox();
+        }
+
+        return `${this.inboxPrefix}.${token}`;
+    }
+
+    public removeInbox(subject: string): void {
+        this.inboxHandlers.delete(subject.substring(this.inboxPrefix.length + 1));
+    }
+
+    // Subscribe a subject for the lifetime of the current connection
+    public subscribeSubject(subject: string, handler: MessageHandler): string {
+        const sid = 'js_' + Math.random().toString(36).substr(2, 9);
+        this.subjectHandlers.set(sid, handler);
+
+        if (this.isConnected()) {
+            this.sendToNats({ op: 'sub', subject, sid });
+        }
+
+        return sid;
+    }
+
+    public unsubscribeSubject(sid: string): void {
+        if (this.subjectHandlers.delete(sid) && this.isConnected()) {
+            this.sendToNats({ op: 'unsub', sid });
+        }
+    }
+
+    private subscribeInbox(): void {
+        // Subscribed on (re)connect otherwise
+        if (!this.isConnected()) {
+            return;
+        }
+
+        this.sendToNats({
+            op: 'sub',
+            subject: `${this.inboxPrefix}.*`,
+            sid: this.inboxSid
+        });
+        this.inboxSubscribed = true;
+    }
+
+    // NATS subject a channel subscribes and publishes on
+    public channelSubject(channelName: string): string {
+        return this.subjectMapper.toSubject(channelName);
+    }
+
+    // Event name a listener is registered under, see NatsEventFormatter
+    public formatEvent(event: string): string {
+        return this.eventFormatter.format(event);
+    }
+
     public getConfig(): NatsEchoOptions {
         return { ...this.options };
     }
@@ -913,20 +1878,33 @@ export class NatsConnector implements LaravelEchoConnector {
                 echo.nats = connector;
 
                 // Override Echo methods to use NATS connector
-                echo.channel = (name: string) => {
-                    return connector.channel(name);
+                echo.channel = <Events extends EventMap = EventMap>(name: string, channelOptions?: ChannelOptions) => {
+                    return connector.channel<Events>(name, channelOptions);
                 };
 
-                echo.private = (name: string) => {
-                    return connector.privateChannel(name);
+                echo.private = <Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>(
+                    name: string,
+                    channelOptions?: ChannelOptions
+                ) => {
+                    return connector.privateChannel<Events, Whispers>(name, channelOptions);
                 };
 
-                echo.encryptedPrivate = (name: string) => {
-                    return connector.encryptedPrivateChannel(name);
+                echo.encryptedPrivate = <Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>(
+                    name: string,
+                    channelOptions?: ChannelOptions
+                ) => {
+                    return connector.encryptedPrivateChannel<Events, Whispers>(name, channelOptions);
                 };
 
-                echo.join = (name: string) => {
-                    return connector.join(name);
+                echo.join = <Member = any, Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>(
+                    name: string,
+                    channelOptions?: ChannelOptions
+                ) => {
+                    return connector.join<Member, Events, Whispers>(name, channelOptions);
+                };
+
+                echo.stateChannel = (key: string, stateOptions?: StateOptions) => {
+                    return connector.stateChannel(key, stateOptions);
                 };
 
                 echo.leave = (name: string) => {
@@ -943,10 +1921,18 @@ export class NatsConnector implements LaravelEchoConnector {
                     connector.disconnect();
                 };
 
+                echo.drain = (): Promise<void> => {
+                    return connector.drain();
+                };
+
                 echo.socketId = (): string => {
                     return connector.socketId();
                 };
 
+                echo.fetch = (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+                    return connector.fetch(input, init);
+                };
+
                 echo.on = (event: string, handler: Function) => {
                     connector.on(event, handler);
                     return echo; // Allow chaining
@@ -957,8 +1943,13 @@ export class NatsConnector implements LaravelEchoConnector {
                     return echo; // Allow chaining
                 };
 
-                echo.listen = (channel: string, event: string, callback: Function) => {
-                    return connector.listen(channel, event, callback);
+                echo.listen = <Events extends EventMap = EventMap, E extends ListenableEvent<Events> = EventName<Events>>(
+                    channel: string,
+                    event: E,
+                    callback: ListenerCallback<Events, E>,
+                    channelOptions?: ChannelOptions
+                ) => {
+                    return connector.listen<Events, E>(channel, event, callback, channelOptions);
                 };
 
                 // Connect automatically
@@ -971,4 +1962,29 @@ export class NatsConnector implements LaravelEchoConnector {
             }
         };
     }
-}
\ No newline at end of file
+}
+
+// Socket that sent an event, Laravel's BroadcastEvent keeps it in the payload, e.g.
+// { event, data: { ..., socket } }, drivers may also publish it next to the data
+function eventSocket(message: any): string | null {
+    if (typeof message?.socket === 'string') {
+        return message.socket;
+    }
+    if (typeof message?.data?.socket === 'string') {
+        return message.data.socket;
+    }
+    return null;
+}
+
+// Whether a connection authenticated with `current` already has every permission of `next`
+function grantIncludes(current: ChannelGrant, next: ChannelGrant): boolean {
+    if (!current.permissions || !next.permissions) {
+        return current.credentials.jwt === next.credentials.jwt;
+    }
+
+    const covers = (allowed: string[] | undefined, wanted: string[] | undefined) =>
+        !wanted || (!!allowed && wanted.every(subject => allowed.some(pattern => subjectMatches(pattern, subject))));
+
+    return covers(current.permissions.subscribe, next.permissions.subscribe)
+        && covers(current.permissions.publish, next.permissions.publish);
+}
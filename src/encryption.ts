@@ -0,0 +1,68 @@
+import nacl from 'tweetnacl';
+
+// Payload format of Laravel's encrypted (Pusher compatible) broadcasts
+export interface EncryptedPayload {
+    nonce: string;
+    ciphertext: string;
+}
+
+export function isEncryptedPayload(data: any): data is EncryptedPayload {
+    return !!data && typeof data === 'object'
+        && typeof data.nonce === 'string'
+        && typeof data.ciphertext === 'string';
+}
+
+// The auth response carries the channel's shared secret base64 encoded
+export function decodeSharedSecret(sharedSecret: string): Uint8Array {
+    const key = base64Decode(sharedSecret);
+    if (key.length !== nacl.secretbox.keyLength) {
+        throw new Error(`Invalid shared_secret: expected ${nacl.secretbox.keyLength} bytes, got ${key.length}`);
+    }
+    return key;
+}
+
+export function encryptPayload(key: Uint8Array, data: any): EncryptedPayload {
+    const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+    const message = new TextEncoder().encode(typeof data === 'string' ? data : JSON.stringify(data));
+
+    return {
+        nonce: base64Encode(nonce),
+        ciphertext: base64Encode(nacl.secretbox(message, nonce, key))
+    };
+}
+
+export function decryptPayload(key: Uint8Array, payload: EncryptedPayload): any {
+    const plaintext = nacl.secretbox.open(
+        base64Decode(payload.ciphertext),
+        base64Decode(payload.nonce),
+        key
+    );
+
+    if (!plaintext) {
+        throw new Error('Unable to decrypt payload with the current shared secret');
+    }
+
+    const text = new TextDecoder().decode(plaintext);
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+function base64Encode(data: Uint8Array): string {
+    let binary = '';
+    data.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+}
+
+function base64Decode(encoded: string): Uint8Array {
+    const binary = atob(encoded);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
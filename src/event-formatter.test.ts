@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { NatsEventFormatter } from './event-formatter';
+
+// Cases follow laravel-echo's own EventFormatter tests
+describe('NatsEventFormatter', () => {
+    let formatter: NatsEventFormatter;
+
+    beforeEach(() => {
+        formatter = new NatsEventFormatter('App.Events');
+    });
+
+    test('prepends the namespace and replaces dot separators with backslashes', () => {
+        expect(formatter.format('Users.UserCreated')).toBe('App\\Events\\Users\\UserCreated');
+    });
+
+    test('does not prepend the namespace when the event starts with a dot', () => {
+        expect(formatter.format('.App\\Users\\UserCreated')).toBe('App\\Users\\UserCreated');
+    });
+
+    test('does not prepend the namespace when the event starts with a backslash', () => {
+        expect(formatter.format('\\App\\Users\\UserCreated')).toBe('App\\Users\\UserCreated');
+    });
+
+    test('keeps dot separators of broadcastAs names starting with a dot', () => {
+        expect(formatter.format('.users.created')).toBe('users.created');
+    });
+
+    test('keeps dot separators of names starting with a backslash', () => {
+        expect(formatter.format('\\users.created')).toBe('users.created');
+    });
+
+    test('does not prepend a namespace when it is disabled', () => {
+        formatter = new NatsEventFormatter(false);
+        expect(formatter.format('Users.UserCreated')).toBe('Users\\UserCreated');
+    });
+
+    test('uses App\\Events by default', () => {
+        expect(new NatsEventFormatter().format('OrderShipped')).toBe('App\\Events\\OrderShipped');
+    });
+
+    test('applies a namespace set later', () => {
+        formatter.setNamespace('Domain\\Orders');
+        expect(formatter.format('OrderShipped')).toBe('Domain\\Orders\\OrderShipped');
+
+        formatter.setNamespace(false);
+        expect(formatter.format('OrderShipped')).toBe('OrderShipped');
+    });
+
+    test('resolves whisper and notification names without a namespace', () => {
+        expect(formatter.format('.client-typing')).toBe('client-typing');
+        expect(formatter.format('.Illuminate\\Notifications\\Events\\BroadcastNotificationCreated'))
+            .toBe('Illuminate\\Notifications\\Events\\BroadcastNotificationCreated');
+    });
+});
@@ -1,43 +1,56 @@
 import { EventFormatter } from './types';
 
+/**
+ * Resolves listened event names the way laravel-echo's EventFormatter does.
+ *
+ * `OrderShipped` becomes `App\Events\OrderShipped`. A leading `.` or `\` opts out of the
+ * namespace and is the only change made, so the `broadcastAs` name `.order.shipped` stays
+ * `order.shipped`. With `namespace: false` the dots of every other name become backslashes.
+ */
 export class NatsEventFormatter implements EventFormatter {
-    private namespace: string = 'App\\Events';
+    private namespace: string | false = 'App\\Events';
 
-    constructor(namespace?: string) {
-        if (namespace) {
+    constructor(namespace?: string | false) {
+        if (namespace !== undefined) {
             this.namespace = namespace;
         }
     }
 
-    format(namespace: string, event: string): string {
-        // If event is already namespaced, return as is
-        if (event.startsWith(namespace)) {
-            return event;
+    format(event: string): string {
+        if (event.charAt(0) === '.' || event.charAt(0) === '\\') {
+            return event.substring(1);
         }
 
-        // Format: Namespace\EventName
-        return namespace + '\\' + event;
+        if (this.namespace) {
+            event = this.namespace + '.' + event;
+        }
+
+        return event.replace(/\./g, '\\');
     }
 
-    setNamespace(namespace: string): void {
+    setNamespace(namespace: string | false): void {
         this.namespace = namespace;
     }
 
-    getNamespace(): string {
+    getNamespace(): string | false {
         return this.namespace;
     }
 
     // Helper to check if event belongs to namespace
     belongsToNamespace(eventName: string): boolean {
-        return eventName.startsWith(this.namespace);
+        return this.namespace !== false && eventName.startsWith(this.namespacePrefix());
     }
 
     // Extract event name without namespace
     getEventNameWithoutNamespace(eventName: string): string {
         if (this.belongsToNamespace(eventName)) {
-            // Remove namespace and leading backslash
-            return eventName.substring(this.namespace.length + 1);
+            return eventName.substring(this.namespacePrefix().length);
         }
         return eventName;
     }
-}
\ No newline at end of file
+
+    // The namespace as it appears in formatted names, followed by its separator
+    private namespacePrefix(): string {
+        return (this.namespace || '').replace(/\./g, '\\') + '\\';
+    }
+}
@@ -0,0 +1,131 @@
+const HEADER_VERSION = 'NATS/1.0';
+
+export type HeadersInit = NatsHeaders | Record<string, string | string[]>;
+
+/**
+ * NATS message headers (the `NATS/1.0` block of HMSG/HPUB).
+ *
+ * Names keep the case they were sent with, lookups are case-insensitive.
+ */
+export class NatsHeaders {
+    // Status line fields, e.g. "NATS/1.0 503" for no responders
+    public status?: number;
+    public description?: string;
+
+    private entries: Map<string, { name: string; values: string[] }> = new Map();
+
+    constructor(init?: Record<string, string | string[]>) {
+        if (init) {
+            Object.entries(init).forEach(([name, value]) => {
+                (Array.isArray(value) ? value : [value]).forEach(v => this.append(name, v));
+            });
+        }
+    }
+
+    static from(init: HeadersInit): NatsHeaders {
+        return init instanceof NatsHeaders ? init : new NatsHeaders(init);
+    }
+
+    static parse(data: Uint8Array | string): NatsHeaders {
+        const text = typeof data === 'string' ? data : new TextDecoder().decode(data);
+        const lines = text.split('\r\n');
+        const headers = new NatsHeaders();
+
+        const statusLine = lines[0] || '';
+        if (!statusLine.startsWith(HEADER_VERSION)) {
+            throw new Error(`Invalid NATS header block: ${statusLine}`);
+        }
+
+        // NATS/1.0 [<status> [<description>]]
+        const status = statusLine.substring(HEADER_VERSION.length).trim();
+        if (status) {
+            const spaceIndex = status.indexOf(' ');
+            headers.status = parseInt(spaceIndex === -1 ? status : status.substring(0, spaceIndex), 10);
+            if (spaceIndex !== -1) {
+                headers.description = status.substring(spaceIndex + 1).trim();
+            }
+        }
+
+        for (let i = 1; i < lines.length; i++) {
+            const line = lines[i];
+            if (line === '') {
+                continue;
+            }
+
+            const colonIndex = line.indexOf(':');
+            if (colonIndex <= 0) {
+                continue; // Ignore malformed header lines
+            }
+
+            headers.append(line.substring(0, colonIndex).trim(), line.substring(colonIndex + 1).trim());
+        }
+
+        return headers;
+    }
+
+    public get(name: string): string | undefined {
+        return this.entries.get(name.toLowerCase())?.values[0];
+    }
+
+    public getAll(name: string): string[] {
+        return [...(this.entries.get(name.toLowerCase())?.values || [])];
+    }
+
+    public has(name: string): boolean {
+        return this.entries.has(name.toLowerCase());
+    }
+
+    public set(name: string, value: string): this {
+        this.validate(name, value);
+        this.entries.set(name.toLowerCase(), { name, values: [value] });
+        return this;
+    }
+
+    public append(name: string, value: string): this {
+        this.validate(name, value);
+        const entry = this.entries.get(name.toLowerCase());
+        if (entry) {
+            entry.values.push(value);
+        } else {
+            this.entries.set(name.toLowerCase(), { name, values: [value] });
+        }
+        return this;
+    }
+
+    public delete(name: string): this {
+        this.entries.delete(name.toLowerCase());
+        return this;
+    }
+
+    public keys(): string[] {
+        return Array.from(this.entries.values()).map(entry => entry.name);
+    }
+
+    public toObject(): Record<string, string[]> {
+        const result: Record<string, string[]> = {};
+        this.entries.forEach(entry => {
+            result[entry.name] = [...entry.values];
+        });
+        return result;
+    }
+
+    // Serialize to the wire format used by HPUB
+    public encode(): string {
+        let block = HEADER_VERSION + '\r\n';
+        this.entries.forEach(entry => {
+            entry.values.forEach(value => {
+                block += `${entry.name}: ${value}\r\n`;
+            });
+        });
+        return block + '\r\n';
+    }
+
+    private validate(name: string, value: string): void {
+        if (!name || /[\s:]/.test(name)) {
+            throw new Error(`Invalid NATS header name: "${name}"`);
+        }
+        if (/[\r\n]/.test(value)) {
+            throw new Error(`Invalid value for NATS header "${name}": line breaks are not allowed`);
+        }
+    }
+}
@@ -1,8 +1,30 @@
 import { NatsConnector } from './connector';
 import { Channel, PrivateChannel, EncryptedPrivateChannel } from './channel';
-import { PresenceChannel } from './presence-channel';
+import { PresenceChannel, PRESENCE_EVENTS, PresenceMessage } from './presence-channel';
+import { StateChannel } from './state-channel';
 import { NatsEventFormatter } from './event-formatter';
-import { NatsEchoOptions, Connector } from './types';
+import { NatsHeaders } from './headers';
+import { DefaultSubjectMapper } from './subject-mapper';
+import {
+    NatsEchoOptions,
+    Connector,
+    MessageMeta,
+    PublishOptions,
+    NatsCredentials,
+    SubscriptionError,
+    RequestOptions,
+    ChannelOptions,
+    HistoryOptions,
+    JetStreamOptions,
+    StateOptions,
+    StateEntry,
+    SubjectMapper,
+    ConnectionState,
+    StateChange,
+    EventMap,
+    EventCallback,
+    PayloadValidator
+} from './types';
 
 // Create the broadcaster object for Laravel Echo
 const NatsBroadcaster = NatsConnector.asBroadcaster();
@@ -20,11 +42,35 @@ export {
     PrivateChannel,
     EncryptedPrivateChannel,
     PresenceChannel,
-    NatsEventFormatter
+    StateChannel,
+    NatsEventFormatter,
+    NatsHeaders,
+    DefaultSubjectMapper,
+    PRESENCE_EVENTS
 };
 
 // Type exports
-export type { NatsEchoOptions, Connector };
+export type {
+    NatsEchoOptions,
+    Connector,
+    MessageMeta,
+    PublishOptions,
+    NatsCredentials,
+    SubscriptionError,
+    PresenceMessage,
+    RequestOptions,
+    ChannelOptions,
+    HistoryOptions,
+    JetStreamOptions,
+    StateOptions,
+    StateEntry,
+    SubjectMapper,
+    ConnectionState,
+    StateChange,
+    EventMap,
+    EventCallback,
+    PayloadValidator
+};
 
 // Default export (Laravel Echo plugin)
 export default NatsBroadcaster;
\ No newline at end of file
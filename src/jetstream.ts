@@ -0,0 +1,343 @@
+import { MessageMeta, MessageHandler, JetStreamOptions } from './types';
+
+// Idle heartbeat requested from the server, a consumer is considered stalled after two missed beats
+const IDLE_HEARTBEAT = 5000;
+// Ephemeral consumers are removed by the server after this much inactivity
+const INACTIVE_THRESHOLD = 30000;
+const NANOS_PER_MILLI = 1000000;
+
+export type DeliverPolicy = 'all' | 'last' | 'new' | 'by_start_sequence' | 'by_start_time' | 'last_per_subject';
+
+export interface OrderedConsumerConfig {
+    filterSubject: string;
+    deliverPolicy: DeliverPolicy;
+    optStartSeq?: number;
+    optStartTime?: string;
+}
+
+// Delivery information encoded in the $JS.ACK reply subject
+export interface JsMsgInfo {
+    stream: string;
+    consumer: string;
+    streamSequence: number;
+    consumerSequence: number;
+    timestamp: number;
+    pending: number;
+}
+
+export type JsMessageHandler = (data: any, meta: MessageMeta, info: JsMsgInfo) => void;
+
+// The parts of the connector a consumer needs
+export interface JetStreamClient {
+    request(subject: string, data: any, options?: { timeout?: number }): Promise<any>;
+    send(subject: string, data: any): Promise<void>;
+    subscribeSubject(subject: string, handler: MessageHandler): string;
+    unsubscribeSubject(sid: string): void;
+    isConnected(): boolean;
+}
+
+export function parseAckSubject(subject?: string): JsMsgInfo | null {
+    if (!subject) {
+        return null;
+    }
+
+    // $JS.ACK.<stream>.<consumer>.<delivered>.<sseq>.<cseq>.<tm>.<pending>
+    // $JS.ACK.<domain>.<account>.<stream>.<consumer>.<delivered>.<sseq>.<cseq>.<tm>.<pending>.<token>
+    const tokens = subject.split('.');
+    if (tokens[0] !== '$JS' || tokens[1] !== 'ACK') {
+        return null;
+    }
+
+    const offset = tokens.length === 9 ? 2 : tokens.length >= 11 ? 4 : -1;
+    if (offset === -1) {
+        return null;
+    }
+
+    return {
+        stream: tokens[offset],
+        consumer: tokens[offset + 1],
+        streamSequence: parseInt(tokens[offset + 3], 10),
+        consumerSequence: parseInt(tokens[offset + 4], 10),
+        timestamp: Math.floor(Number(tokens[offset + 5]) / NANOS_PER_MILLI),
+        pending: parseInt(tokens[offset + 6], 10)
+    };
+}
+
+export function apiPrefix(options: JetStreamOptions = {}): string {
+    if (options.apiPrefix) {
+        return options.apiPrefix;
+    }
+    return options.domain ? `$JS.${options.domain}.API` : '$JS.API';
+}
+
+// Find the stream that captures a subject
+export async function lookupStream(client: JetStreamClient, options: JetStreamOptions, subject: string): Promise<string> {
+    if (options.stream) {
+        return options.stream;
+    }
+
+    const response = await jsRequest(client, options, 'STREAM.NAMES', { subject });
+    if (!response.streams || response.streams.length === 0) {
+        throw new Error(`No JetStream stream captures subject ${subject}`);
+    }
+
+    return response.streams[0];
+}
+
+export async function jsRequest(client: JetStreamClient, options: JetStreamOptions, api: string, payload: any): Promise<any> {
+    let response: any;
+    try {
+        response = await client.request(`${apiPrefix(options)}.${api}`, payload, { timeout: options.timeout });
+    } catch (error: any) {
+        throw new Error(`JetStream request ${api} failed: ${error.message}`);
+    }
+
+    if (response?.error) {
+        throw new Error(`JetStream ${api}: ${response.error.description} (${response.error.err_code || response.error.code})`);
+    }
+
+    return response;
+}
+
+/**
+ * Find the stream sequence to replay from so that at least `count` messages of a subject
+ * are delivered, without replaying the whole stream.
+ *
+ * Pull consumers without a deliver subject report how many messages match from a start
+ * sequence without sending any, the window before the last sequence grows until it holds enough.
+ */
+export async function findStartSequence(client: JetStreamClient, options: JetStreamOptions, stream: string, subject: string, count: number): Promise<number> {
+    const info = await jsRequest(client, options, `STREAM.INFO.${stream}`, {});
+    const firstSequence = Math.max(1, info.state?.first_seq || 1);
+    const lastSequence = info.state?.last_seq || 0;
+
+    for (let window = count; ; window *= 4) {
+        const start = Math.max(firstSequence, lastSequence - window + 1);
+        if (start === firstSequence) {
+            return start;
+        }
+
+        const probe = await jsRequest(client, options, `CONSUMER.CREATE.${stream}`, {
+            stream_name: stream,
+            config: {
+                filter_subject: subject,
+                deliver_policy: 'by_start_sequence',
+                opt_start_seq: start,
+                ack_policy: 'none',
+                inactive_threshold: INACTIVE_THRESHOLD * NANOS_PER_MILLI,
+                mem_storage: true,
+                num_replicas: 1
+            }
+        });
+        jsRequest(client, options, `CONSUMER.DELETE.${stream}.${probe.name}`, {}).catch(() => {});
+
+        if (probe.num_pending >= count) {
+            return start;
+        }
+    }
+}
+
+/**
+ * Ephemeral ordered push consumer.
+ *
+ * Delivers stream messages for a subject filter in order, and on gaps, stalls or a
+ * restart resumes from the stream sequence after the last delivered message.
+ */
+export class OrderedConsumer {
+    private stream: string | null = null;
+    private name: string | null = null;
+    private sid: string | null = null;
+    private lastStreamSequence: number = 0;
+    private expectedConsumerSequence: number = 1;
+    private heartbeatTimer: any = null;
+    private resetting: boolean = false;
+    private active: boolean = false;
+
+    constructor(
+        private client: JetStreamClient,
+        private options: JetStreamOptions,
+        private config: OrderedConsumerConfig,
+        private onMessage: JsMessageHandler
+    ) {}
+
+    // Create the consumer, resuming after the last delivered message if there was one
+    public async start(): Promise<any> {
+        this.stop();
+        this.active = true;
+
+        if (!this.stream) {
+            this.stream = await lookupStream(this.client, this.options, this.config.filterSubject);
+        }
+
+        const deliverSubject = '_INBOX.' + Math.random().toString(36).substr(2, 9) + Math.random().toString(36).substr(2, 9);
+        this.sid = this.client.subscribeSubject(deliverSubject, (data, meta) => this.handleMessage(data, meta));
+        this.expectedConsumerSequence = 1;
+
+        try {
+            const response = await jsRequest(this.client, this.options, `CONSUMER.CREATE.${this.stream}`, {
+                stream_name: this.stream,
+                config: this.consumerConfig(deliverSubject)
+            });
+            this.name = response.name;
+
+            // Resume point for a restart, even when nothing gets delivered before it (e.g. deliver policy new)
+            this.advanceStreamSequence(response.delivered?.stream_seq);
+
+            // Stopped while the consumer was being created
+            if (!this.active) {
+                this.stop();
+                return response;
+            }
+
+            this.watchHeartbeats();
+            return response;
+        } catch (error) {
+            this.stop();
+            throw error;
+        }
+    }
+
+    public stop(): void {
+        this.active = false;
+
+        if (this.heartbeatTimer) {
+            clearTimeout(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+
+        if (this.sid) {
+            this.client.unsubscribeSubject(this.sid);
+            this.sid = null;
+        }
+
+        // Ephemeral consumers expire on their own, deleting them is a courtesy
+        if (this.name && this.stream && this.client.isConnected()) {
+            jsRequest(this.client, this.options, `CONSUMER.DELETE.${this.stream}.${this.name}`, {}).catch(() => {});
+        }
+        this.name = null;
+    }
+
+    public getLastSequence(): number {
+        return this.lastStreamSequence;
+    }
+
+    private consumerConfig(deliverSubject: string): Record<string, any> {
+        const config: Record<string, any> = {
+            deliver_subject: deliverSubject,
+            filter_subject: this.config.filterSubject,
+            ack_policy: 'none',
+            max_deliver: 1,
+            flow_control: true,
+            idle_heartbeat: IDLE_HEARTBEAT * NANOS_PER_MILLI,
+            inactive_threshold: INACTIVE_THRESHOLD * NANOS_PER_MILLI,
+            mem_storage: true,
+            num_replicas: 1
+        };
+
+        if (this.lastStreamSequence > 0) {
+            config.deliver_policy = 'by_start_sequence';
+            config.opt_start_seq = this.lastStreamSequence + 1;
+        } else {
+            config.deliver_policy = this.config.deliverPolicy;
+            if (this.config.optStartSeq) {
+                config.opt_start_seq = this.config.optStartSeq;
+            }
+            if (this.config.optStartTime) {
+                config.opt_start_time = this.config.optStartTime;
+            }
+        }
+
+        return config;
+    }
+
+    private handleMessage(data: any, meta: MessageMeta): void {
+        if (!this.active) {
+            return;
+        }
+
+        this.watchHeartbeats();
+
+        // Status messages: idle heartbeats and flow control
+        if (meta.headers?.status === 100) {
+            this.handleStatus(meta);
+            return;
+        }
+
+        const info = parseAckSubject(meta.replyTo);
+        if (!info) {
+            return;
+        }
+
+        if (info.consumerSequence !== this.expectedConsumerSequence) {
+            this.reset(`expected consumer sequence ${this.expectedConsumerSequence}, got ${info.consumerSequence}`);
+            return;
+        }
+
+        this.expectedConsumerSequence++;
+        this.lastStreamSequence = info.streamSequence;
+
+        // The ack reply subject is not meant for listeners
+        this.onMessage(data, { ...meta, replyTo: undefined, respond: undefined, sequence: info.streamSequence }, info);
+    }
+
+    private handleStatus(meta: MessageMeta): void {
+        const headers = meta.headers!;
+
+        if (meta.replyTo && headers.description?.includes('FlowControl')) {
+            this.client.send(meta.replyTo, '').catch(() => {});
+            return;
+        }
+
+        // Heartbeats carry the last consumer sequence sent, which reveals lost messages
+        const lastConsumerSequence = headers.get('Nats-Last-Consumer');
+        if (lastConsumerSequence && parseInt(lastConsumerSequence, 10) !== this.expectedConsumerSequence - 1) {
+            this.reset('missed messages reported by heartbeat');
+            return;
+        }
+
+        // Messages published since, that the filter skipped, need no replay after a restart
+        const lastStreamSequence = headers.get('Nats-Last-Stream');
+        if (lastStreamSequence) {
+            this.advanceStreamSequence(parseInt(lastStreamSequence, 10));
+        }
+
+        const stalled = headers.get('Nats-Consumer-Stalled');
+        if (stalled) {
+            this.client.send(stalled, '').catch(() => {});
+        }
+    }
+
+    private advanceStreamSequence(sequence: number | undefined): void {
+        if (sequence && sequence > this.lastStreamSequence) {
+            this.lastStreamSequence = sequence;
+        }
+    }
+
+    private watchHeartbeats(): void {
+        if (this.heartbeatTimer) {
+            clearTimeout(this.heartbeatTimer);
+        }
+
+        this.heartbeatTimer = setTimeout(() => {
+            this.heartbeatTimer = null;
+            if (this.active && this.client.isConnected()) {
+                this.reset('missed heartbeats');
+            }
+        }, IDLE_HEARTBEAT * 2);
+    }
+
+    private reset(reason: string): void {
+        if (this.resetting) {
+            return;
+        }
+
+        this.resetting = true;
+        console.warn(`JetStream consumer on ${this.config.filterSubject} restarting: ${reason}`);
+
+        this.start()
+            .catch(error => console.error(`Failed to restart JetStream consumer on ${this.config.filterSubject}:`, error))
+            .finally(() => {
+                this.resetting = false;
+            });
+    }
+}
@@ -0,0 +1,173 @@
+import nacl from 'tweetnacl';
+import { NatsCredentials, SubjectPermissions } from './types';
+
+// Prefix bytes of encoded NKEYs
+const PREFIX_SEED = 18 << 3; // 'S'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface NKeyPair {
+    getPublicKey(): string;
+    sign(data: Uint8Array): Uint8Array;
+}
+
+/**
+ * Create a signing key pair from an encoded NKEY seed (e.g. "SUA...").
+ */
+export function fromSeed(seed: string): NKeyPair {
+    const raw = decodeChecked(seed.trim());
+
+    // The first two bytes carry the seed prefix and the public key type
+    if ((raw[0] & 248) !== PREFIX_SEED) {
+        throw new Error('Invalid NKEY seed: wrong prefix');
+    }
+    const publicPrefix = ((raw[0] & 7) << 5) | ((raw[1] & 248) >> 3);
+    const keyPair = nacl.sign.keyPair.fromSeed(raw.subarray(2));
+
+    return {
+        getPublicKey: () => encodeChecked(publicPrefix, keyPair.publicKey),
+        sign: (data: Uint8Array) => nacl.sign.detached(data, keyPair.secretKey)
+    };
+}
+
+// Signature format expected by the server in CONNECT `sig`
+export function signNonce(seed: string, nonce: string): string {
+    return base64UrlEncode(fromSeed(seed).sign(new TextEncoder().encode(nonce)));
+}
+
+/**
+ * Extract the user JWT and NKEY seed from the contents of a `.creds` file.
+ */
+export function parseCreds(creds: string): NatsCredentials {
+    const jwt = extractBlock(creds, 'NATS USER JWT');
+    const seed = extractBlock(creds, 'USER NKEY SEED');
+
+    if (!jwt) {
+        throw new Error('Invalid credentials: no user JWT found');
+    }
+
+    return { jwt, seed };
+}
+
+/**
+ * Read the subjects a user JWT allows, null when the JWT cannot be decoded.
+ *
+ * A user JWT without subscribe or publish limits is allowed every subject.
+ */
+export function jwtPermissions(jwt: string): SubjectPermissions | null {
+    let claims: any;
+    try {
+        claims = JSON.parse(base64UrlDecode(jwt.split('.')[1] || ''));
+    } catch {
+        return null;
+    }
+
+    if (!claims?.nats) {
+        return null;
+    }
+
+    return {
+        subscribe: claims.nats.sub?.allow?.length ? claims.nats.sub.allow : ['>'],
+        publish: claims.nats.pub?.allow?.length ? claims.nats.pub.allow : ['>']
+    };
+}
+
+function extractBlock(creds: string, label: string): string | undefined {
+    // -----BEGIN <label>-----\n<value>\n------END <label>------
+    const pattern = new RegExp(`-{3,}BEGIN ${label}-{3,}\\s*\\n\\s*(\\S+)\\s*\\n\\s*-{3,}END ${label}-{3,}`);
+    const match = creds.match(pattern);
+    return match ? match[1] : undefined;
+}
+
+function encodeChecked(prefix: number, data: Uint8Array): string {
+    const raw = new Uint8Array(data.length + 3);
+    raw[0] = prefix;
+    raw.set(data, 1);
+
+    const checksum = crc16(raw.subarray(0, data.length + 1));
+    raw[data.length + 1] = checksum & 0xff;
+    raw[data.length + 2] = checksum >> 8;
+
+    return base32Encode(raw);
+}
+
+function decodeChecked(encoded: string): Uint8Array {
+    const raw = base32Decode(encoded);
+    if (raw.length < 4) {
+        throw new Error('Invalid NKEY: too short');
+    }
+
+    const payload = raw.subarray(0, raw.length - 2);
+    const checksum = raw[raw.length - 2] | (raw[raw.length - 1] << 8);
+    if (crc16(payload) !== checksum) {
+        throw new Error('Invalid NKEY: checksum mismatch');
+    }
+
+    return payload;
+}
+
+// CRC-16/XMODEM as used by the nkeys encoding
+function crc16(data: Uint8Array): number {
+    let crc = 0;
+    for (let i = 0; i < data.length; i++) {
+        crc ^= data[i] << 8;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+        }
+    }
+    return crc;
+}
+
+function base32Encode(data: Uint8Array): string {
+    let result = '';
+    let buffer = 0;
+    let bits = 0;
+
+    for (let i = 0; i < data.length; i++) {
+        buffer = (buffer << 8) | data[i];
+        bits += 8;
+        while (bits >= 5) {
+            result += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        result += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+    }
+
+    return result;
+}
+
+function base32Decode(encoded: string): Uint8Array {
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+
+    for (const char of encoded.toUpperCase()) {
+        const value = BASE32_ALPHABET.indexOf(char);
+        if (value === -1) {
+            throw new Error(`Invalid NKEY: unexpected character "${char}"`);
+        }
+        buffer = (buffer << 5) | value;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((buffer >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+
+    return new Uint8Array(bytes);
+}
+
+function base64UrlEncode(data: Uint8Array): string {
+    let binary = '';
+    data.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): string {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    return atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+}
@@ -0,0 +1,99 @@
+export interface OutboundBufferOptions {
+    maxMessages: number;
+    maxBytes: number;
+    // Milliseconds a message may wait, 0 keeps it until flushed or evicted
+    ttl: number;
+}
+
+interface PendingMessage<T> {
+    message: T;
+    bytes: number;
+    // Rejects the message once its ttl is over
+    timer: any;
+    resolve: () => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Bounded queue of publishes made while the connection is down.
+ *
+ * When a limit is reached the oldest messages are evicted, their promises reject.
+ */
+export class OutboundBuffer<T> {
+    private pending: PendingMessage<T>[] = [];
+    private pendingBytes: number = 0;
+
+    constructor(private options: OutboundBufferOptions) {}
+
+    // Resolves once the message is written to the socket
+    public push(message: T, bytes: number, ttl: number = this.options.ttl): Promise<void> {
+        if (bytes > this.options.maxBytes || this.options.maxMessages < 1) {
+            return Promise.reject(new Error(`Message of ${bytes} bytes does not fit the outbound buffer`));
+        }
+
+        return new Promise((resolve, reject) => {
+            const entry: PendingMessage<T> = { message, bytes, timer: null, resolve, reject };
+
+            if (ttl > 0) {
+                entry.timer = setTimeout(() => {
+                    this.remove(entry);
+                    reject(new Error('Expired in the outbound buffer'));
+                }, ttl);
+            }
+
+            this.pending.push(entry);
+            this.pendingBytes += bytes;
+
+            while (this.pending.length > this.options.maxMessages || this.pendingBytes > this.options.maxBytes) {
+                this.shift()!.reject(new Error('Evicted from the outbound buffer'));
+            }
+        });
+    }
+
+    // Write every message that has not expired, in publish order
+    public flush(write: (message: T) => void): void {
+        while (this.pending.length > 0) {
+            const entry = this.shift()!;
+
+            try {
+                write(entry.message);
+                entry.resolve();
+            } catch (error: any) {
+                entry.reject(error);
+            }
+        }
+    }
+
+    public clear(error: Error): void {
+        while (this.pending.length > 0) {
+            this.shift()!.reject(error);
+        }
+    }
+
+    public size(): number {
+        return this.pending.length;
+    }
+
+    public bytes(): number {
+        return this.pendingBytes;
+    }
+
+    private shift(): PendingMessage<T> | undefined {
+        const entry = this.pending[0];
+        if (entry) {
+            this.remove(entry);
+        }
+        return entry;
+    }
+
+    private remove(entry: PendingMessage<T>): void {
+        const index = this.pending.indexOf(entry);
+        if (index === -1) {
+            return;
+        }
+
+        this.pending.splice(index, 1);
+        this.pendingBytes -= entry.bytes;
+        clearTimeout(entry.timer);
+    }
+}
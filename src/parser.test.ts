@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { NatsParser, NatsMsg, ParserHandler } from './parser';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+interface Recorded {
+    messages: NatsMsg[];
+    pings: number;
+    pongs: number;
+    errors: string[];
+    protocolErrors: Error[];
+}
+
+function recorder(): { handler: ParserHandler; recorded: Recorded } {
+    const recorded: Recorded = { messages: [], pings: 0, pongs: 0, errors: [], protocolErrors: [] };
+    const handler: ParserHandler = {
+        onInfo: () => {},
+        onMsg: msg => recorded.messages.push(msg),
+        onPing: () => recorded.pings++,
+        onPong: () => recorded.pongs++,
+        onOk: () => {},
+        onErr: message => recorded.errors.push(message),
+        onProtocolError: error => recorded.protocolErrors.push(error)
+    };
+    return { handler, recorded };
+}
+
+describe('NatsParser', () => {
+    let parser: NatsParser;
+    let recorded: Recorded;
+
+    beforeEach(() => {
+        const created = recorder();
+        parser = new NatsParser(created.handler);
+        recorded = created.recorded;
+    });
+
+    test('reassembles a multibyte UTF-8 payload fed one byte at a time', () => {
+        const payload = encoder.encode('{"text":"héllo 👋 世界"}');
+        const frame = new Uint8Array([
+            ...encoder.encode(`MSG chat.1 sid_1 ${payload.length}\r\n`),
+            ...payload,
+            ...encoder.encode('\r\n')
+        ]);
+
+        frame.forEach(byte => parser.feed(new Uint8Array([byte])));
+
+        expect(recorded.messages).toHaveLength(1);
+        expect(decoder.decode(recorded.messages[0].payload)).toBe('{"text":"héllo 👋 世界"}');
+        expect(parser.getState()).toBe('AWAITING_CONTROL');
+        expect(parser.bufferedBytes()).toBe(0);
+    });
+
+    test('handles a CRLF split across chunks', () => {
+        parser.feed('PING\r');
+        expect(recorded.pings).toBe(0);
+
+        parser.feed('\nPONG\r\nMSG a 1 2\r\nhi\r');
+        expect(recorded.pings).toBe(1);
+        expect(recorded.pongs).toBe(1);
+        expect(recorded.messages).toHaveLength(0);
+
+        parser.feed('\n');
+        expect(decoder.decode(recorded.messages[0].payload)).toBe('hi');
+        expect(recorded.protocolErrors).toHaveLength(0);
+    });
+
+    test('splits HMSG headers from the payload using the header and total counts', () => {
+        const headers = 'NATS/1.0\r\nX-Trace: abc\r\n\r\n';
+        const payload = 'body';
+        parser.feed(`HMSG orders sid_2 ${headers.length} ${headers.length + payload.length}\r\n${headers}${payload}\r\n`);
+
+        const msg = recorded.messages[0];
+        expect(decoder.decode(msg.headers!)).toBe(headers);
+        expect(decoder.decode(msg.payload)).toBe(payload);
+        expect(msg.replyTo).toBeUndefined();
+    });
+
+    test('reads the reply-to subject of MSG and HMSG', () => {
+        parser.feed('MSG orders sid_3 _INBOX.abc.1 2\r\nok\r\n');
+        parser.feed('HMSG orders sid_3 _INBOX.abc.2 12 12\r\nNATS/1.0\r\n\r\n\r\n');
+
+        expect(recorded.messages.map(msg => msg.replyTo)).toEqual(['_INBOX.abc.1', '_INBOX.abc.2']);
+        expect(recorded.messages[1].payload).toHaveLength(0);
+    });
+
+    test('unquotes -ERR messages', () => {
+        parser.feed("-ERR 'Permissions Violation for Subscription to \"private-orders\"'\r\n");
+        parser.feed('-ERR Unquoted\r\n');
+
+        expect(recorded.errors).toEqual(['Permissions Violation for Subscription to "private-orders"', 'Unquoted']);
+    });
+
+    test('reports a payload that is not terminated by CRLF and keeps parsing', () => {
+        parser.feed('MSG a 1 2\r\nhiXXPING\r\n');
+
+        expect(recorded.protocolErrors).toHaveLength(1);
+        expect(recorded.protocolErrors[0].message).toContain('not terminated by CRLF');
+        expect(recorded.pings).toBe(1);
+        expect(parser.getState()).toBe('AWAITING_CONTROL');
+    });
+});
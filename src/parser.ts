@@ -0,0 +1,249 @@
+// NATS Protocol Constants
+export const NATS_PROTOCOL = {
+    INFO: 'INFO',
+    CONNECT: 'CONNECT',
+    PUB: 'PUB',
+    HPUB: 'HPUB',
+    SUB: 'SUB',
+    UNSUB: 'UNSUB',
+    MSG: 'MSG',
+    HMSG: 'HMSG',
+    PING: 'PING',
+    PONG: 'PONG',
+    OK: '+OK',
+    ERR: '-ERR'
+} as const;
+
+const CR = 0x0d;
+const LF = 0x0a;
+
+// AWAITING_CONTROL: waiting for a complete control line (terminated by CRLF)
+// AWAITING_PAYLOAD: waiting for the payload announced by a MSG/HMSG control line
+export type ParserState = 'AWAITING_CONTROL' | 'AWAITING_PAYLOAD';
+
+export interface NatsMsg {
+    subject: string;
+    sid: string;
+    replyTo?: string;
+    // Raw NATS/1.0 header block, only present for HMSG
+    headers?: Uint8Array;
+    payload: Uint8Array;
+}
+
+export interface ParserHandler {
+    onInfo(info: any): void;
+    onMsg(msg: NatsMsg): void;
+    onPing(): void;
+    onPong(): void;
+    onOk(): void;
+    onErr(message: string): void;
+    onProtocolError?(error: Error): void;
+}
+
+// Size information of the MSG/HMSG whose payload is being collected
+interface PendingPayload {
+    subject: string;
+    sid: string;
+    replyTo?: string;
+    headerBytes: number;
+    totalBytes: number;
+}
+
+/**
+ * Incremental parser for the NATS client protocol.
+ *
+ * Operates on raw bytes so that byte counts announced by MSG/HMSG are honored exactly,
+ * independent of how the server's output is split across WebSocket frames.
+ */
+export class NatsParser {
+    private buffer: Uint8Array = new Uint8Array(0);
+    private state: ParserState = 'AWAITING_CONTROL';
+    private pending: PendingPayload | null = null;
+    private decoder = new TextDecoder();
+    private encoder = new TextEncoder();
+
+    constructor(private handler: ParserHandler) {}
+
+    public feed(chunk: Uint8Array | ArrayBuffer | string): void {
+        let bytes: Uint8Array;
+
+        if (typeof chunk === 'string') {
+            bytes = this.encoder.encode(chunk);
+        } else if (chunk instanceof Uint8Array) {
+            bytes = chunk;
+        } else {
+            bytes = new Uint8Array(chunk);
+        }
+
+        this.append(bytes);
+        this.process();
+    }
+
+    public reset(): void {
+        this.buffer = new Uint8Array(0);
+        this.state = 'AWAITING_CONTROL';
+        this.pending = null;
+    }
+
+    public getState(): ParserState {
+        return this.state;
+    }
+
+    // Number of bytes received but not consumed yet
+    public bufferedBytes(): number {
+        return this.buffer.length;
+    }
+
+    private append(bytes: Uint8Array): void {
+        if (this.buffer.length === 0) {
+            this.buffer = bytes;
+            return;
+        }
+
+        const combined = new Uint8Array(this.buffer.length + bytes.length);
+        combined.set(this.buffer, 0);
+        combined.set(bytes, this.buffer.length);
+        this.buffer = combined;
+    }
+
+    private process(): void {
+        let offset = 0;
+
+        while (offset < this.buffer.length) {
+            if (this.state === 'AWAITING_CONTROL') {
+                const end = this.buffer.indexOf(LF, offset);
+                if (end === -1) {
+                    break;
+                }
+
+                // Tolerate a bare LF, but strip the CR of a proper CRLF terminator
+                const lineEnd = end > offset && this.buffer[end - 1] === CR ? end - 1 : end;
+                const line = this.decoder.decode(this.buffer.subarray(offset, lineEnd));
+                offset = end + 1;
+
+                this.dispatch(() => this.handleControlLine(line));
+            } else {
+                const pending = this.pending!;
+
+                // Payload plus its trailing CRLF
+                if (this.buffer.length - offset < pending.totalBytes + 2) {
+                    break;
+                }
+
+                const block = this.buffer.slice(offset, offset + pending.totalBytes);
+                const terminated = this.buffer[offset + pending.totalBytes] === CR
+                    && this.buffer[offset + pending.totalBytes + 1] === LF;
+                offset += pending.totalBytes + 2;
+
+                this.state = 'AWAITING_CONTROL';
+                this.pending = null;
+
+                if (!terminated) {
+                    this.protocolError(new Error(`Payload for ${pending.subject} is not terminated by CRLF`));
+                }
+
+                const msg: NatsMsg = {
+                    subject: pending.subject,
+                    sid: pending.sid,
+                    replyTo: pending.replyTo,
+                    payload: block.subarray(pending.headerBytes)
+                };
+
+                if (pending.headerBytes > 0) {
+                    msg.headers = block.subarray(0, pending.headerBytes);
+                }
+
+                this.dispatch(() => this.handler.onMsg(msg));
+            }
+        }
+
+        this.buffer = offset >= this.buffer.length ? new Uint8Array(0) : this.buffer.slice(offset);
+    }
+
+    // A failing handler must not leave the parser mid-frame
+    private dispatch(callback: () => void): void {
+        try {
+            callback();
+        } catch (error) {
+            console.error('Error while handling NATS protocol message:', error);
+        }
+    }
+
+    private handleControlLine(line: string): void {
+        if (line.trim() === '') {
+            return;
+        }
+
+        const spaceIndex = line.search(/[ \t]/);
+        const op = (spaceIndex === -1 ? line : line.substring(0, spaceIndex)).toUpperCase();
+        const args = spaceIndex === -1 ? '' : line.substring(spaceIndex + 1).trim();
+
+        switch (op) {
+            case NATS_PROTOCOL.MSG:
+                this.startPayload(line, args, false);
+                break;
+            case NATS_PROTOCOL.HMSG:
+                this.startPayload(line, args, true);
+                break;
+            case NATS_PROTOCOL.PING:
+                this.handler.onPing();
+                break;
+            case NATS_PROTOCOL.PONG:
+                this.handler.onPong();
+                break;
+            case NATS_PROTOCOL.OK:
+                this.handler.onOk();
+                break;
+            case NATS_PROTOCOL.ERR:
+                this.handler.onErr(args.replace(/^'(.*)'$/, '$1'));
+                break;
+            case NATS_PROTOCOL.INFO:
+                try {
+                    this.handler.onInfo(JSON.parse(args));
+                } catch (error) {
+                    this.protocolError(new Error(`Invalid INFO: ${args}`));
+                }
+                break;
+            default:
+                this.protocolError(new Error(`Unknown protocol line: ${line}`));
+        }
+    }
+
+    private startPayload(line: string, args: string, withHeaders: boolean): void {
+        // MSG <subject> <sid> [reply-to] <#bytes>
+        // HMSG <subject> <sid> [reply-to] <#header bytes> <#total bytes>
+        const parts = args.split(/[ \t]+/);
+        const sizeFields = withHeaders ? 2 : 1;
+        const hasReply = parts.length === 3 + sizeFields;
+
+        if (parts.length !== 2 + sizeFields && !hasReply) {
+            this.protocolError(new Error(`Invalid ${withHeaders ? 'HMSG' : 'MSG'} header: ${line}`));
+            return;
+        }
+
+        const totalBytes = parseInt(parts[parts.length - 1], 10);
+        const headerBytes = withHeaders ? parseInt(parts[parts.length - 2], 10) : 0;
+
+        if (isNaN(totalBytes) || isNaN(headerBytes) || totalBytes < 0 || headerBytes > totalBytes) {
+            this.protocolError(new Error(`Invalid byte count: ${line}`));
+            return;
+        }
+
+        this.pending = {
+            subject: parts[0],
+            sid: parts[1],
+            replyTo: hasReply ? parts[2] : undefined,
+            headerBytes,
+            totalBytes
+        };
+        this.state = 'AWAITING_PAYLOAD';
+    }
+
+    private protocolError(error: Error): void {
+        if (this.handler.onProtocolError) {
+            this.handler.onProtocolError(error);
+        } else {
+            console.error('NATS protocol error:', error.message);
+        }
+    }
+}
@@ -1,106 +1,348 @@
 import { PrivateChannel } from './channel';
-import { Connector, PresenceChannel as IPresenceChannel } from './types';
+import {
+    Connector,
+    PresenceChannel as IPresenceChannel,
+    PublishOptions,
+    MessageMeta,
+    EventMap,
+    EventName
+} from './types';
 
-export class PresenceChannel extends PrivateChannel implements IPresenceChannel {
-    private members: Map<string | number, any> = new Map();
-    private hereCallbacks: Function[] = [];
-    private joiningCallbacks: Function[] = [];
-    private leavingCallbacks: Function[] = [];
+// Presence protocol, published on the channel subject as regular broadcast events
+export const PRESENCE_EVENTS = {
+    // A member subscribed to the channel
+    JOINING: 'presence:joining',
+    // A member left the channel
+    LEAVING: 'presence:leaving',
+    // Periodic proof of life of a member
+    HEARTBEAT: 'presence:heartbeat',
+    // Roster request, every member answers on the reply subject
+    SYNC: 'presence:sync',
+    // Answer to a roster request
+    MEMBER: 'presence:member'
+} as const;
+
+// Payload of every presence protocol message
+export interface PresenceMessage {
+    socket: string;
+    user_id?: string | number;
+    user_info?: any;
+}
+
+interface MemberEntry {
+    // The user_info the server attached to the member's channel data
+    info: any;
+    // Last time each connection (socket) of the member was seen
+    sockets: Map<string, number>;
+}
+
+export class PresenceChannel<Member = any, Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>
+    extends PrivateChannel<Events, Whispers> implements IPresenceChannel<Member, Events, Whispers> {
+    private members: Map<string | number, MemberEntry> = new Map();
+    private hereCallbacks: ((users: Member[]) => void)[] = [];
+    private joiningCallbacks: ((user: Member) => void)[] = [];
+    private leavingCallbacks: ((user: Member) => void)[] = [];
+    private me: PresenceMessage | null = null;
+    private synced: boolean = false;
+    private heartbeatTimer: any = null;
+    private syncInbox: string | null = null;
+    private syncTimer: any = null;
+    private subscribing: Promise<this> | null = null;
+    private connectedHandler = () => this.joinChannel();
 
     constructor(connector: Connector, name: string, options: any = {}) {
-        super(connector, 'presence-' + name, options);
+        super(connector, name, options, 'presence-');
+    }
+
+    // join(), listen() and the presence callbacks may all subscribe, they share one attempt
+    public subscribe(): Promise<this> {
+        if (!this.subscribing) {
+            this.subscribing = this.joinPresence().finally(() => {
+                this.subscribing = null;
+            });
+        }
+        return this.subscribing;
     }
 
-    public async subscribe(): Promise<this> {
-        if (this.subscribed) {
+    private async joinPresence(): Promise<this> {
+        if (this.subscriptionActive) {
             return this;
         }
 
         await super.subscribe();
 
-        // Set up presence event listeners
-        this.listen('presence:here', (users: any[]) => {
-            this.updateMembers(users);
-            this.triggerHere(users);
-        });
+        this.me = this.parseChannelData();
 
-        this.listen('presence:joining', (user: any) => {
-            this.addMember(user);
-            this.triggerJoining(user);
-        });
+        // Set up presence protocol listeners
+        this.addListener(PRESENCE_EVENTS.JOINING, (message: PresenceMessage) => this.handleJoining(message));
+        this.addListener(PRESENCE_EVENTS.HEARTBEAT, (message: PresenceMessage) => this.handleHeartbeat(message));
+        this.addListener(PRESENCE_EVENTS.LEAVING, (message: PresenceMessage) => this.handleLeaving(message));
+        this.addListener(PRESENCE_EVENTS.SYNC, (message: PresenceMessage, meta?: MessageMeta) => this.handleSync(message, meta));
 
-        this.listen('presence:leaving', (user: any) => {
-            this.removeMember(user);
-            this.triggerLeaving(user);
-        });
+        // Announce ourselves now and again after every reconnect
+        this.connector.on('connected', this.connectedHandler);
+        if (this.connector.isConnected()) {
+            this.joinChannel();
+        }
 
         return this;
     }
 
     public unsubscribe(): this {
-        this.subscribed = false;
-        return this;
+        if (!this.subscriptionActive) {
+            return this;
+        }
+
+        this.connector.off('connected', this.connectedHandler);
+        this.stopTimers();
+
+        if (this.me && this.connector.isConnected()) {
+            this.publish(PRESENCE_EVENTS.LEAVING, this.me);
+        }
+
+        this.members.clear();
+        this.me = null;
+        this.synced = false;
+
+        return super.unsubscribe();
     }
 
-    public here(callback: (users: any[]) => void): this {
+    public here(callback: (users: Member[]) => void): this {
         this.hereCallbacks.push(callback);
+        this.ensureSubscribed();
 
-        // Trigger immediately if we already have members
-        if (this.members.size > 0) {
+        // Trigger immediately if the roster is already known
+        if (this.synced) {
             callback(this.getMembers());
         }
 
         return this;
     }
 
-    public joining(callback: (user: any) => void): this {
+    public joining(callback: (user: Member) => void): this {
         this.joiningCallbacks.push(callback);
+        this.ensureSubscribed();
         return this;
     }
 
-    public leaving(callback: (user: any) => void): this {
+    public leaving(callback: (user: Member) => void): this {
         this.leavingCallbacks.push(callback);
+        this.ensureSubscribed();
         return this;
     }
 
-    public whisper(eventName: string, data: any): this {
+    public whisper<E extends EventName<Whispers>>(eventName: E, data: Whispers[E], options: PublishOptions = {}): this {
         // Override parent whisper to include presence channel specific logic
-        return super.whisper(eventName, data);
+        return super.whisper(eventName, data, options);
     }
 
-    public getMembers(): any[] {
-        return Array.from(this.members.values());
+    public getMembers(): Member[] {
+        return Array.from(this.members.values()).map(member => member.info);
     }
 
-    public getMember(userId: string | number): any | undefined {
-        return this.members.get(userId);
+    public getMember(userId: string | number): Member | undefined {
+        return this.members.get(userId)?.info;
+    }
+
+    // Presence callbacks need the channel joined, e.g. after stopListening() left it
+    private ensureSubscribed(): void {
+        if (!this.subscriptionActive) {
+            this.subscribe().catch(console.error);
+        }
     }
 
-    private updateMembers(users: any[]): void {
+    private parseChannelData(): PresenceMessage {
+        let channelData = this.authResponse?.channel_data;
+
+        // Laravel returns channel_data as a JSON string
+        if (typeof channelData === 'string') {
+            try {
+                channelData = JSON.parse(channelData);
+            } catch {
+                channelData = {};
+            }
+        }
+
+        const userId = channelData?.user_id ?? channelData?.id;
+        if (userId === undefined) {
+            console.warn(`No user_id in channel_data for presence channel ${this.name}`);
+        }
+
+        return {
+            socket: this.connector.socketId(),
+            user_id: userId,
+            user_info: channelData?.user_info ?? channelData
+        };
+    }
+
+    private joinChannel(): void {
+        if (!this.me) {
+            return;
+        }
+
+        this.stopTimers();
+
+        // Start from a fresh roster containing ourselves, the sync fills in the rest
+        this.synced = false;
         this.members.clear();
-        users.forEach(user => {
-            if (user.id || user.user_id) {
-                const userId = user.id || user.user_id;
-                this.members.set(userId, user);
+        this.touchMember(this.me);
+
+        this.publish(PRESENCE_EVENTS.JOINING, this.me);
+        this.requestRoster();
+
+        const config = (this.connector as any).getConfig();
+        this.heartbeatTimer = setInterval(() => {
+            this.publish(PRESENCE_EVENTS.HEARTBEAT, this.me);
+            this.removeSilentMembers();
+        }, config.presenceHeartbeat);
+    }
+
+    private requestRoster(): void {
+        const connector = this.connector as any;
+        const config = connector.getConfig();
+
+        this.syncInbox = connector.createInbox((message: any) => {
+            if (message?.event === PRESENCE_EVENTS.MEMBER && message.data) {
+                this.touchMember(message.data);
             }
         });
+
+        connector.send(connector.channelSubject(this.name), { event: PRESENCE_EVENTS.SYNC, data: this.me }, { reply: this.syncInbox })
+            .catch((error: any) => console.error(`Failed to request the roster of ${this.name}:`, error));
+
+        // Collect answers for a moment, then report the roster
+        this.syncTimer = setTimeout(() => {
+            this.syncTimer = null;
+            this.synced = true;
+            this.closeSyncInbox();
+            this.triggerHere(this.getMembers());
+        }, config.presenceSyncTimeout);
+    }
+
+    private handleJoining(message: PresenceMessage): void {
+        if (this.isOwnMessage(message)) {
+            return;
+        }
+
+        const isNewMember = this.touchMember(message);
+
+        // Members found during a sync are reported through here()
+        if (isNewMember && this.synced) {
+            this.triggerJoining(message.user_info);
+        }
+    }
+
+    private handleHeartbeat(message: PresenceMessage): void {
+        if (this.isOwnMessage(message)) {
+            return;
+        }
+
+        // A heartbeat from an unknown member means we missed its join
+        if (this.touchMember(message) && this.synced) {
+            this.triggerJoining(message.user_info);
+        }
+    }
+
+    private handleLeaving(message: PresenceMessage): void {
+        if (this.isOwnMessage(message) || message.user_id === undefined) {
+            return;
+        }
+
+        this.removeConnection(message.user_id, message.socket);
     }
 
-    private addMember(user: any): void {
-        const userId = user.id || user.user_id;
-        if (userId) {
-            this.members.set(userId, user);
+    private handleSync(message: PresenceMessage, meta?: MessageMeta): void {
+        if (this.isOwnMessage(message) || !meta?.replyTo || !this.me) {
+            return;
         }
+
+        (this.connector as any).send(meta.replyTo, { event: PRESENCE_EVENTS.MEMBER, data: this.me })
+            .catch((error: any) => console.error(`Failed to answer the roster request on ${this.name}:`, error));
     }
 
-    private removeMember(user: any): void {
-        const userId = user.id || user.user_id;
-        if (userId) {
+    // Record a sign of life, returns true when the member was not known yet
+    private touchMember(message: PresenceMessage): boolean {
+        if (message.user_id === undefined || !message.socket) {
+            return false;
+        }
+
+        const existing = this.members.get(message.user_id);
+        if (existing) {
+            existing.sockets.set(message.socket, Date.now());
+            return false;
+        }
+
+        this.members.set(message.user_id, {
+            info: message.user_info,
+            sockets: new Map([[message.socket, Date.now()]])
+        });
+        return true;
+    }
+
+    private removeConnection(userId: string | number, socket: string): void {
+        const member = this.members.get(userId);
+        if (!member) {
+            return;
+        }
+
+        member.sockets.delete(socket);
+
+        // A user with several tabs only leaves when the last one is gone
+        if (member.sockets.size === 0) {
             this.members.delete(userId);
+            if (this.synced) {
+                this.triggerLeaving(member.info);
+            }
         }
     }
 
-    private triggerHere(users: any[]): void {
+    private removeSilentMembers(): void {
+        const config = (this.connector as any).getConfig();
+        const deadline = Date.now() - config.presenceTimeout;
+
+        this.members.forEach((member, userId) => {
+            member.sockets.forEach((lastSeen, socket) => {
+                if (socket !== this.me?.socket && lastSeen < deadline) {
+                    this.removeConnection(userId, socket);
+                }
+            });
+        });
+    }
+
+    private isOwnMessage(message: PresenceMessage): boolean {
+        return !message || message.socket === this.connector.socketId();
+    }
+
+    private publish(event: string, message: PresenceMessage | null): void {
+        const connector = this.connector as any;
+
+        // Not buffered while disconnected, joinChannel announces us again after reconnecting
+        if (message && connector.isConnected()) {
+            connector.send(connector.channelSubject(this.name), { event, data: message })
+                .catch((error: any) => console.error(`Failed to publish ${event} on ${this.name}:`, error));
+        }
+    }
+
+    private closeSyncInbox(): void {
+        if (this.syncInbox) {
+            (this.connector as any).removeInbox(this.syncInbox);
+            this.syncInbox = null;
+        }
+    }
+
+    private stopTimers(): void {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+        if (this.syncTimer) {
+            clearTimeout(this.syncTimer);
+            this.syncTimer = null;
+        }
+        this.closeSyncInbox();
+    }
+
+    private triggerHere(users: Member[]): void {
         this.hereCallbacks.forEach(callback => {
             try {
                 callback(users);
@@ -110,7 +352,7 @@ export class PresenceChannel extends PrivateChannel implements IPresenceChannel
         });
     }
 
-    private triggerJoining(user: any): void {
+    private triggerJoining(user: Member): void {
         this.joiningCallbacks.forEach(callback => {
             try {
                 callback(user);
@@ -120,7 +362,7 @@ export class PresenceChannel extends PrivateChannel implements IPresenceChannel
         });
     }
 
-    private triggerLeaving(user: any): void {
+    private triggerLeaving(user: Member): void {
         this.leavingCallbacks.forEach(callback => {
             try {
                 callback(user);
@@ -129,22 +371,4 @@ export class PresenceChannel extends PrivateChannel implements IPresenceChannel
             }
         });
     }
-
-    // Handle presence-specific events from the connector
-    public handlePresenceEvent(event: string, data: any): void {
-        switch (event) {
-            case 'presence:here':
-                this.updateMembers(data);
-                this.triggerHere(data);
-                break;
-            case 'presence:joining':
-                this.addMember(data);
-                this.triggerJoining(data);
-                break;
-            case 'presence:leaving':
-                this.removeMember(data);
-                this.triggerLeaving(data);
-                break;
-        }
-    }
-}
\ No newline at end of file
+}
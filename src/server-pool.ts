@@ -0,0 +1,71 @@
+export interface ServerPoolOptions {
+    // Shuffle the configured servers so clients spread across the cluster
+    randomize?: boolean;
+    // Turns "host:port" entries into WebSocket URLs
+    normalize?: (server: string) => string;
+}
+
+/**
+ * Ordered list of WebSocket URLs the connector rotates through on reconnect.
+ */
+export class ServerPool {
+    private servers: string[] = [];
+    private currentIndex: number = 0;
+    private normalize: (server: string) => string;
+
+    constructor(urls: string[], options: ServerPoolOptions = {}) {
+        this.normalize = options.normalize || (server => server);
+
+        urls.forEach(url => this.add(url));
+
+        if (options.randomize !== false) {
+            this.shuffle();
+        }
+    }
+
+    public current(): string {
+        return this.servers[this.currentIndex];
+    }
+
+    // Move on to the next server, wrapping around at the end of the list
+    public next(): string {
+        this.currentIndex = (this.currentIndex + 1) % this.servers.length;
+        return this.current();
+    }
+
+    // Merge cluster members advertised by the server, returns the number of new entries
+    public addDiscovered(urls: string[]): number {
+        let added = 0;
+        urls.forEach(url => {
+            if (this.add(url)) {
+                added++;
+            }
+        });
+        return added;
+    }
+
+    public size(): number {
+        return this.servers.length;
+    }
+
+    public urls(): string[] {
+        return [...this.servers];
+    }
+
+    private add(server: string): boolean {
+        const url = this.normalize(server);
+        if (!url || this.servers.includes(url)) {
+            return false;
+        }
+
+        this.servers.push(url);
+        return true;
+    }
+
+    private shuffle(): void {
+        for (let i = this.servers.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [this.servers[i], this.servers[j]] = [this.servers[j], this.servers[i]];
+        }
+    }
+}
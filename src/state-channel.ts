@@ -0,0 +1,183 @@
+import { BaseChannel } from './channel';
+import { OrderedConsumer, JsMsgInfo } from './jetstream';
+import {
+    Connector,
+    MessageMeta,
+    StateChannel as IStateChannel,
+    StateEntry,
+    StateOptions
+} from './types';
+
+// Bucket used when neither the channel nor the jetstream option names one
+const DEFAULT_BUCKET = 'state';
+
+// Deletes and purges are empty messages marked with this header
+const KV_OPERATION_HEADER = 'KV-Operation';
+
+/**
+ * Current value of one or more keys of a JetStream KV bucket.
+ *
+ * The key may contain wildcards (`board.42.*`, `board.>`) to watch a whole prefix.
+ */
+export class StateChannel extends BaseChannel implements IStateChannel {
+    private entries: Map<string, StateEntry> = new Map();
+    private consumer: OrderedConsumer | null = null;
+    private ready: boolean = false;
+    private bucket: string;
+    private snapshotCallbacks: Function[] = [];
+    private changeCallbacks: Function[] = [];
+    private connectedHandler = () => this.watch();
+
+    constructor(connector: Connector, name: string, options: StateOptions = {}) {
+        super(connector, name, options);
+
+        const config = (connector as any).getConfig();
+        this.bucket = options.bucket || config.jetstream?.bucket || DEFAULT_BUCKET;
+    }
+
+    public async subscribe(): Promise<this> {
+        if (this.subscriptionActive) {
+            return this;
+        }
+
+        this.subscriptionActive = true;
+
+        const config = (this.connector as any).getConfig();
+        this.consumer = new OrderedConsumer(
+            this.connector as any,
+            { ...config.jetstream, stream: `KV_${this.bucket}` },
+            { filterSubject: `${this.subjectPrefix()}${this.name}`, deliverPolicy: 'last_per_subject' },
+            (data, meta, info) => this.handleEntry(data, meta, info)
+        );
+
+        // The consumer resumes after the last update it saw on every reconnect
+        this.connector.on('connected', this.connectedHandler);
+        if (this.connector.isConnected()) {
+            await this.watch();
+        }
+
+        return this;
+    }
+
+    public unsubscribe(): this {
+        if (!this.subscriptionActive) {
+            return this;
+        }
+
+        this.connector.off('connected', this.connectedHandler);
+        this.consumer?.stop();
+        this.consumer = null;
+
+        this.entries.clear();
+        this.ready = false;
+        this.subscriptionActive = false;
+        this.listeners = {};
+
+        return this;
+    }
+
+    public get(key?: string): any {
+        return this.entries.get(key ?? this.name)?.value;
+    }
+
+    public all(): Record<string, any> {
+        const values: Record<string, any> = {};
+        this.entries.forEach((entry, key) => {
+            values[key] = entry.value;
+        });
+        return values;
+    }
+
+    public isReady(): boolean {
+        return this.ready;
+    }
+
+    public snapshot(callback: (values: Record<string, any>) => void): this {
+        this.snapshotCallbacks.push(callback);
+
+        // Trigger immediately if the initial values are already loaded
+        if (this.ready) {
+            callback(this.all());
+        } else if (!this.subscriptionActive) {
+            this.subscribe().catch(console.error);
+        }
+
+        return this;
+    }
+
+    public onChange(callback: (value: any, entry: StateEntry) => void): this {
+        this.changeCallbacks.push(callback);
+
+        if (!this.subscriptionActive) {
+            this.subscribe().catch(console.error);
+        }
+
+        return this;
+    }
+
+    private async watch(): Promise<void> {
+        try {
+            const response = await this.consumer!.start();
+            this.trigger('subscription_succeeded', undefined);
+
+            // An empty bucket has no initial values to wait for
+            if (!this.ready && !response.num_pending) {
+                this.markReady();
+            }
+        } catch (error: any) {
+            console.error(`Failed to watch state ${this.bucket}.${this.name}:`, error);
+            this.trigger('subscription_error', { type: 'JetStreamError', status: 0, error });
+        }
+    }
+
+    private handleEntry(data: any, meta: MessageMeta, info: JsMsgInfo): void {
+        const operation = (meta.headers?.get(KV_OPERATION_HEADER) || 'PUT') as StateEntry['operation'];
+        const entry: StateEntry = {
+            key: meta.subject.substring(this.subjectPrefix().length),
+            value: operation === 'PUT' ? data : undefined,
+            revision: info.streamSequence,
+            operation,
+            created: new Date(info.timestamp)
+        };
+
+        if (operation === 'PUT') {
+            this.entries.set(entry.key, entry);
+        } else {
+            this.entries.delete(entry.key);
+        }
+
+        // Updates that are part of the initial values are reported through snapshot()
+        if (this.ready) {
+            this.triggerChange(entry);
+        } else if (info.pending === 0) {
+            this.markReady();
+        }
+    }
+
+    private subjectPrefix(): string {
+        return `$KV.${this.bucket}.`;
+    }
+
+    private markReady(): void {
+        this.ready = true;
+
+        const values = this.all();
+        this.snapshotCallbacks.forEach(callback => {
+            try {
+                callback(values);
+            } catch (error) {
+                console.error('Error in snapshot callback:', error);
+            }
+        });
+    }
+
+    private triggerChange(entry: StateEntry): void {
+        this.changeCallbacks.forEach(callback => {
+            try {
+                callback(entry.value, entry);
+            } catch (error) {
+                console.error('Error in change callback:', error);
+            }
+        });
+    }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'vitest';
+import { DefaultSubjectMapper, escapeSubject, unescapeSubject } from './subject-mapper';
+
+// Every token of a NATS subject must be non-empty and free of whitespace
+function expectValidSubject(subject: string): void {
+    expect(subject.split('.').every(token => token !== '' && !/\s/.test(token))).toBe(true);
+}
+
+describe('escapeSubject', () => {
+    test('keeps dots of Laravel channel names as token separators', () => {
+        expect(escapeSubject('private-App.Models.User.5')).toBe('private-App.Models.User.5');
+    });
+
+    test.each([
+        ['.orders', '%2Eorders'],
+        ['orders.', 'orders%2E'],
+        ['a..b', 'a%2E.b'],
+        ['a...b', 'a%2E%2E.b']
+    ])('escapes dots of %s that would leave an empty token', (name, subject) => {
+        expect(escapeSubject(name)).toBe(subject);
+        expectValidSubject(subject);
+        expect(unescapeSubject(subject)).toBe(name);
+    });
+
+    test('escapes a literal percent sign, including one that looks like an escape', () => {
+        expect(escapeSubject('100%')).toBe('100%25');
+        expect(escapeSubject('a%2E')).toBe('a%252E');
+        expect(unescapeSubject('a%252E')).toBe('a%2E');
+    });
+
+    test('escapes * and > inside a token', () => {
+        expect(escapeSubject('orders*')).toBe('orders%2A');
+        expect(escapeSubject('a.*b')).toBe('a.%2Ab');
+        expect(escapeSubject('a.>.b')).toBe('a.%3E.b');
+        expect(escapeSubject('a.*.')).toBe('a.%2A%2E');
+    });
+
+    test('keeps standalone * and trailing > tokens as wildcards', () => {
+        expect(escapeSubject('orders.*')).toBe('orders.*');
+        expect(escapeSubject('*.created')).toBe('*.created');
+        expect(escapeSubject('orders.>')).toBe('orders.>');
+        expect(escapeSubject('>')).toBe('>');
+    });
+
+    test('escapes whitespace', () => {
+        expect(escapeSubject('my channel\tx')).toBe('my%20channel%09x');
+        expectValidSubject('my%20channel%09x');
+    });
+});
+
+describe('DefaultSubjectMapper', () => {
+    const mapper = new DefaultSubjectMapper('app.');
+
+    test.each([
+        'private-App.Models.User.5',
+        '.orders',
+        'orders.',
+        'a..b',
+        '100%',
+        'a%2E',
+        'orders*',
+        'a.>.b',
+        'orders.*',
+        'orders.>',
+        'my channel\tx'
+    ])('round trips %s through the prefix', name => {
+        const subject = mapper.toSubject(name);
+
+        expect(subject.startsWith('app.')).toBe(true);
+        expectValidSubject(subject);
+        expect(mapper.fromSubject(subject)).toBe(name);
+    });
+
+    test('prepends the prefix verbatim', () => {
+        expect(mapper.toSubject('orders')).toBe('app.orders');
+        expect(new DefaultSubjectMapper().toSubject('orders')).toBe('orders');
+    });
+
+    test('returns null for subjects outside the prefix', () => {
+        expect(mapper.fromSubject('other.orders')).toBeNull();
+        expect(mapper.fromSubject('app')).toBeNull();
+        expect(mapper.fromSubject('_INBOX.abc')).toBeNull();
+    });
+});
@@ -0,0 +1,72 @@
+import { SubjectMapper } from './types';
+
+// Characters NATS reserves in subjects, plus the escape character itself
+const RESERVED = /[%*> \t\r\n\f\v]/;
+const ESCAPE_SEQUENCE = /%([0-9A-F]{2})/g;
+
+/**
+ * Maps Laravel channel names to NATS subjects the way Laravel's NATS broadcast driver publishes them.
+ *
+ * The prefix option is prepended verbatim and dots stay token separators, so
+ * `private-App.Models.User.5` keeps its hierarchy. Standalone `*` and trailing `>` tokens
+ * stay wildcards, any other `*`, `>`, whitespace and dots that would leave an empty token
+ * are percent-escaped, which keeps the mapping reversible.
+ */
+export class DefaultSubjectMapper implements SubjectMapper {
+    constructor(private prefix: string = '') {}
+
+    public toSubject(channel: string): string {
+        return this.prefix + escapeSubject(channel);
+    }
+
+    public fromSubject(subject: string): string | null {
+        if (!subject.startsWith(this.prefix)) {
+            return null;
+        }
+
+        return unescapeSubject(subject.substring(this.prefix.length));
+    }
+}
+
+export function escapeSubject(name: string): string {
+    let subject = '';
+
+    for (let i = 0; i < name.length; i++) {
+        const character = name[i];
+        const tokenStart = subject === '' || subject.endsWith('.');
+
+        if (character === '.') {
+            // A dot at either end or next to another dot would leave an empty token
+            const emptyToken = tokenStart || i === name.length - 1 || name[i + 1] === '.';
+            subject += emptyToken ? escapeCharacter(character) : character;
+        } else if (tokenStart && isWildcard(name, i)) {
+            subject += character;
+        } else if (RESERVED.test(character)) {
+            subject += escapeCharacter(character);
+        } else {
+            subject += character;
+        }
+    }
+
+    return subject;
+}
+
+// A standalone `*` token, or a `>` as the last token, subscribes to a family of channels
+function isWildcard(name: string, i: number): boolean {
+    const last = name.length - 1;
+
+    if (name[i] === '>') {
+        return i === last;
+    }
+
+    // The dot after the token must stay a separator
+    return name[i] === '*' && (i === last || (name[i + 1] === '.' && i + 1 < last && name[i + 2] !== '.'));
+}
+
+export function unescapeSubject(subject: string): string {
+    return subject.replace(ESCAPE_SEQUENCE, (_, code) => String.fromCharCode(parseInt(code, 16)));
+}
+
+function escapeCharacter(character: string): string {
+    return '%' + character.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0');
+}
@@ -0,0 +1,26 @@
+/**
+ * Check a concrete subject against a NATS subject pattern (supports `*` and `>` wildcards).
+ */
+export function subjectMatches(pattern: string, subject: string): boolean {
+    const patternTokens = pattern.split('.');
+    const subjectTokens = subject.split('.');
+
+    for (let i = 0; i < patternTokens.length; i++) {
+        const token = patternTokens[i];
+
+        // '>' matches one or more remaining tokens
+        if (token === '>') {
+            return i === patternTokens.length - 1 && subjectTokens.length > i;
+        }
+
+        if (i >= subjectTokens.length) {
+            return false;
+        }
+
+        if (token !== '*' && token !== subjectTokens[i]) {
+            return false;
+        }
+    }
+
+    return patternTokens.length === subjectTokens.length;
+}
@@ -1,3 +1,6 @@
+import type { AxiosInstance } from 'axios';
+import type { NatsHeaders, HeadersInit } from './headers';
+
 export interface NatsEchoOptions {
     // Connection options
     host?: string;
@@ -5,23 +8,63 @@ export interface NatsEchoOptions {
     user?: string;
     pass?: string;
     token?: string;
+    jwt?: string;
+    nkey?: string;
+    seed?: string;
+    creds?: string;
+    authenticator?: (nonce?: string) => NatsCredentials | Promise<NatsCredentials>;
     timeout?: number;
+    requestTimeout?: number;
+    // Milliseconds drain() waits before closing anyway
+    drainTimeout?: number;
     prefix?: string;
+    // Maps channel names to NATS subjects, defaults to DefaultSubjectMapper with the prefix
+    subjectMapper?: SubjectMapper;
     reconnects?: number;
     debug?: boolean;
 
     // Laravel Echo compatibility
     authEndpoint?: string;
     broadcaster?: 'nats';
-    namespace?: string;
+    // Namespace of listened event names, false to listen to names as given
+    namespace?: string | false;
     csrfToken?: string;
+    // Axios instance that sends X-Socket-ID for toOthers(), defaults to window.axios
+    axios?: AxiosInstance;
+    withoutInterceptors?: boolean;
 
     // WebSocket options
+    webSocket?: WebSocketConstructor;
+    transport?: (url: string) => WebSocketLike;
     wsPort?: number;
     wsPath?: string;
     useTLS?: boolean;
     forceTLS?: boolean;
 
+    // Cluster options
+    noRandomize?: boolean;
+    ignoreClusterUpdates?: boolean;
+
+    // Unanswered PINGs before the connection is considered stale
+    maxPingsOut?: number;
+
+    // Presence options (milliseconds)
+    presenceHeartbeat?: number;
+    presenceTimeout?: number;
+    presenceSyncTimeout?: number;
+
+    // Whispers a channel may send per second, the excess is dropped. 0 for no limit
+    whisperRateLimit?: number;
+
+    // Publishes buffered while disconnected, the oldest are evicted beyond these limits
+    maxPendingMessages?: number;
+    maxPendingBytes?: number;
+    // Milliseconds a buffered publish stays valid, 0 for no limit
+    pendingTtl?: number;
+
+    // JetStream options, used by durable channels
+    jetstream?: JetStreamOptions;
+
     // Advanced options
     maxReconnectAttempts?: number;
     reconnectDelay?: number;
@@ -39,47 +82,142 @@ export interface NatsEchoOptions {
     [key: string]: any;
 }
 
+// Decentralized (JWT) / NKEY credentials, e.g. fetched from a Laravel endpoint
+export interface NatsCredentials {
+    jwt?: string;
+    nkey?: string;
+    // Used to sign the server nonce locally
+    seed?: string;
+    // Pre-computed nonce signature, for when signing happens elsewhere
+    sig?: string;
+    // Contents of a .creds file
+    creds?: string;
+}
+
+// Minimal WebSocket surface the connector relies on (browser WebSocket, "ws", React Native)
+export interface WebSocketLike {
+    readonly readyState: number;
+    binaryType?: string;
+    onopen: ((event: any) => void) | null;
+    onmessage: ((event: any) => void) | null;
+    onerror: ((event: any) => void) | null;
+    onclose: ((event: any) => void) | null;
+    send(data: string | ArrayBuffer | Uint8Array): void;
+    close(code?: number, reason?: string): void;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+// Reversible mapping between Laravel channel names and NATS subjects
+export interface SubjectMapper {
+    toSubject(channel: string): string;
+    // Null for subjects outside of the mapping
+    fromSubject(subject: string): string | null;
+}
+
 export interface EventFormatter {
-    format(namespace: string, event: string): string;
-    setNamespace(namespace: string): void;
-    getNamespace(): string;
+    format(event: string): string;
+    setNamespace(namespace: string | false): void;
+    getNamespace(): string | false;
+}
+
+export type ConnectionState = 'initialized' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'failed';
+
+// Passed to `state_change` listeners
+export interface StateChange {
+    previous: ConnectionState;
+    current: ConnectionState;
 }
 
 export interface Connector {
     // Core methods
     connect(): Promise<void>;
     disconnect(): void;
+    drain(): Promise<void>;
+    flush(): Promise<void>;
+    rtt(): Promise<number>;
 
     // Channel methods
-    listen(channel: string, event: string, callback: Function): Channel;
-    channel(channel: string): Channel;
-    privateChannel(channel: string): Channel;
-    encryptedPrivateChannel(channel: string): Channel;
-    join(channel: string): PresenceChannel;
+    listen<Events extends EventMap = EventMap, E extends ListenableEvent<Events> = EventName<Events>>(
+        channel: string,
+        event: E,
+        callback: ListenerCallback<Events, E>,
+        options?: ChannelOptions
+    ): Channel<Events>;
+    channel<Events extends EventMap = EventMap>(channel: string, options?: ChannelOptions): Channel<Events>;
+    privateChannel<Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>(
+        channel: string,
+        options?: ChannelOptions
+    ): PrivateChannel<Events, Whispers>;
+    encryptedPrivateChannel<Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>(
+        channel: string,
+        options?: ChannelOptions
+    ): PrivateChannel<Events, Whispers>;
+    join<Member = any, Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>(
+        channel: string,
+        options?: ChannelOptions
+    ): PresenceChannel<Member, Events, Whispers>;
+    stateChannel(key: string, options?: StateOptions): StateChannel;
     leave(channel: string): void;
 
+    // Request/reply
+    request(subject: string, data: any, options?: RequestOptions): Promise<any>;
+
     // Event handling
     on(event: string, handler: Function): void;
     off(event: string, handler?: Function): void;
 
     // Connection info
+    readonly state: ConnectionState;
     socketId(): string;
     isConnected(): boolean;
 
     // Laravel Echo compatibility
     notification(userId: string | number): Channel;
+    fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response>;
 }
 
-export interface Channel {
+// Event name -> payload type, e.g. { OrderShipped: { trackingNo: string } }
+export type EventMap = Record<string, any>;
+
+export type EventName<Events extends EventMap> = Extract<keyof Events, string>;
+
+// Event names a listener accepts, '*' receives every event of the channel
+export type ListenableEvent<Events extends EventMap> = EventName<Events> | '*';
+
+export type EventCallback<T = any> = (data: T, meta?: MessageMeta) => void;
+
+export type WildcardCallback = (event: string, data: any, meta?: MessageMeta) => void;
+
+export type ListenerCallback<Events extends EventMap, E extends string> =
+    E extends '*' ? WildcardCallback : EventCallback<Events[E]>;
+
+// Throw or return false to reject a payload before any listener sees it
+export type PayloadValidator = (data: any) => boolean | void;
+
+export interface Channel<Events extends EventMap = EventMap, Whispers extends EventMap = EventMap> {
     // Event listening
-    listen(event: string, callback: Function): Channel;
-    notification(callback: Function): Channel;
-    listenForWhisper(event: string, callback: Function): Channel;
-    stopListening(event?: string, callback?: Function): Channel;
+    listen<E extends ListenableEvent<Events>>(event: E, callback: ListenerCallback<Events, E>): Channel<Events, Whispers>;
+    notification(callback: EventCallback): Channel<Events, Whispers>;
+    listenForWhisper<E extends EventName<Whispers>>(event: E, callback: EventCallback<Whispers[E]>): Channel<Events, Whispers>;
+    stopListening(event?: ListenableEvent<Events>, callback?: Function): Channel<Events, Whispers>;
+
+    // Payload validation
+    validate(event: EventName<Events>, validator: PayloadValidator): Channel<Events, Whispers>;
+
+    // Subscription lifecycle
+    subscribed(callback: Function): Channel<Events, Whispers>;
+    error(callback: (error: SubscriptionError) => void): Channel<Events, Whispers>;
+
+    // Request/reply
+    request(event: string, data: any, options?: RequestOptions): Promise<any>;
+
+    // Recent events, fetched from JetStream once subscribed
+    history(options?: HistoryOptions): Channel<Events, Whispers>;
 
     // Subscription control
-    subscribe(): Promise<Channel>;
-    unsubscribe(): Channel;
+    subscribe(): Promise<Channel<Events, Whispers>>;
+    unsubscribe(): Channel<Events, Whispers>;
 
     // Channel info
     getName(): string;
@@ -87,19 +225,46 @@ export interface Channel {
 
     // Internal methods (for connector)
     getListeners(event?: string): Function[];
-    trigger(event: string, data: any): void;
+    trigger(event: string, data: any, meta?: MessageMeta): void;
 }
 
-export interface PresenceChannel extends Channel {
+export interface PrivateChannel<Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>
+    extends Channel<Events, Whispers> {
+    whisper<E extends EventName<Whispers>>(eventName: E, data: Whispers[E], options?: PublishOptions): PrivateChannel<Events, Whispers>;
+}
+
+export interface PresenceChannel<Member = any, Events extends EventMap = EventMap, Whispers extends EventMap = EventMap>
+    extends PrivateChannel<Events, Whispers> {
     // Presence specific methods
-    here(callback: (users: any[]) => void): PresenceChannel;
-    joining(callback: (user: any) => void): PresenceChannel;
-    leaving(callback: (user: any) => void): PresenceChannel;
-    whisper(eventName: string, data: any): PresenceChannel;
+    here(callback: (users: Member[]) => void): PresenceChannel<Member, Events, Whispers>;
+    joining(callback: (user: Member) => void): PresenceChannel<Member, Events, Whispers>;
+    leaving(callback: (user: Member) => void): PresenceChannel<Member, Events, Whispers>;
+    whisper<E extends EventName<Whispers>>(eventName: E, data: Whispers[E], options?: PublishOptions): PresenceChannel<Member, Events, Whispers>;
 
     // Member management
-    getMembers(): any[];
-    getMember(userId: string | number): any | undefined;
+    getMembers(): Member[];
+    getMember(userId: string | number): Member | undefined;
+}
+
+export interface StateChannel extends Channel {
+    // Current values
+    get(key?: string): any;
+    all(): Record<string, any>;
+    isReady(): boolean;
+
+    // Initial values once loaded, then every change
+    snapshot(callback: (values: Record<string, any>) => void): StateChannel;
+    onChange(callback: (value: any, entry: StateEntry) => void): StateChannel;
+}
+
+export interface StateEntry {
+    key: string;
+    // Undefined once the key is deleted or purged
+    value: any;
+    // Stream sequence of the update
+    revision: number;
+    operation: 'PUT' | 'DEL' | 'PURGE';
+    created: Date;
 }
 
 export interface BroadcastEvent {
@@ -108,16 +273,105 @@ export interface BroadcastEvent {
     channel: string | { name: string };
     socket?: string | null;
     timestamp?: string;
+    subject?: string;
+    replyTo?: string;
+    headers?: NatsHeaders;
+    sequence?: number;
+    historical?: boolean;
+}
+
+// Passed to listeners as the second argument
+export interface MessageMeta {
+    subject: string;
+    // Channel the message was published to, differs from the listening channel on wildcard channels
+    channel?: string;
+    replyTo?: string;
+    headers?: NatsHeaders;
+    // Stream sequence of messages delivered through JetStream
+    sequence?: number;
+    // Set on events delivered by channel.history()
+    historical?: boolean;
+    // Present when the sender expects a reply
+    respond?: (data: any, options?: PublishOptions) => Promise<void>;
+}
+
+export interface ChannelOptions {
+    // Consume through JetStream and replay events missed while disconnected
+    durable?: boolean;
+    // Queue group, each message goes to one member of the group (ignored by durable channels)
+    queue?: string;
+}
+
+export interface StateOptions {
+    // KV bucket holding the key, defaults to the jetstream.bucket option
+    bucket?: string;
+}
+
+export interface HistoryOptions {
+    // Maximum number of events, the most recent ones are kept
+    limit?: number;
+    // Only events published at or after this time
+    since?: Date | string | number;
 }
 
+export interface JetStreamOptions {
+    // Stream capturing the channel subjects, looked up by subject when omitted
+    stream?: string;
+    domain?: string;
+    // Overrides the API prefix derived from the domain
+    apiPrefix?: string;
+    // Milliseconds, defaults to the requestTimeout option
+    timeout?: number;
+    // Default KV bucket of state channels
+    bucket?: string;
+}
+
+export interface PublishOptions {
+    headers?: HeadersInit;
+    // Subject the receivers should reply to
+    reply?: string;
+    // Overrides the pendingTtl option when buffered while disconnected
+    ttl?: number;
+}
+
+export interface RequestOptions {
+    // Milliseconds, defaults to the requestTimeout option
+    timeout?: number;
+    headers?: HeadersInit;
+}
+
+export type MessageHandler = (data: any, meta: MessageMeta) => void;
+
 export interface AuthResponse {
     auth: string;
     channel_data?: any;
     socket_id?: string;
+    // Base64 encoded key of encrypted private channels
+    shared_secret?: string;
+
+    // Scoped user JWT the connection re-authenticates with. The auth request lists the
+    // connection's other private channels in granted_channels, so one JWT can cover them all
+    jwt?: string;
+    seed?: string;
+    // Subjects the user may use, checked before subscribing or whispering
+    permissions?: SubjectPermissions;
+}
+
+export interface SubjectPermissions {
+    subscribe?: string[];
+    publish?: string[];
+}
+
+// Passed to `subscription_error` listeners, mirrors Pusher's subscription error status
+export interface SubscriptionError {
+    type: 'AuthError' | 'PermissionError' | 'JetStreamError' | 'ConnectionError';
+    status: number;
+    error: Error;
 }
 
 export interface Subscription {
     sid: string;
     channel: Channel;
     listeners: Record<string, Function[]>;
+    options?: ChannelOptions;
 }